@@ -0,0 +1,10 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // The build's "bundler" resolution needs an ES module target; tests run as CommonJS
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { moduleResolution: 'node' } }]
+  }
+};
@@ -0,0 +1,430 @@
+import { NextFunction, Request, Response } from "express";
+import { IPOAllotmentService } from "../services/ipoAllotmentService";
+import { Cache, getCache, listCaches } from "../services/cache";
+import { tokenMatches } from "../services/privacy";
+import { RegistrarOverrides } from "../services/registrarOverrides";
+import { RegistrarOverride, RegistrarOverrideInput } from "../types/ipoAllotment";
+
+const DEFAULT_ENTRY_LIMIT = 100;
+const MAX_ENTRY_LIMIT = 1000;
+
+// Admin routes need `Authorization: Bearer <ADMIN_API_TOKEN>`. Without a configured token the
+// admin API is switched off.
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (!process.env.ADMIN_API_TOKEN) {
+    res.status(503).json({
+      success: false,
+      error: "Admin API disabled",
+      message: "Set ADMIN_API_TOKEN to enable the admin API",
+    });
+    return;
+  }
+
+  const [scheme, token] = (req.get("Authorization") || "").split(" ");
+  if (scheme !== "Bearer" || !tokenMatches(token, process.env.ADMIN_API_TOKEN)) {
+    res.status(401).json({
+      success: false,
+      error: "Unauthorized",
+      message: "Admin routes need an Authorization: Bearer header with the admin token",
+    });
+    return;
+  }
+
+  next();
+};
+
+// Look up the namespace in the route, responding with 404 when there is no such cache
+const findCache = (req: Request, res: Response): Cache<unknown> | null => {
+  const cache = getCache(req.params.namespace);
+  if (!cache) {
+    res.status(404).json({
+      success: false,
+      error: "Cache not found",
+      message: `No cache namespace ${req.params.namespace}. Namespaces appear once first used.`,
+    });
+    return null;
+  }
+  return cache;
+};
+
+// List cache namespaces with their stats and the age of their oldest and newest entries
+export const listCacheNamespaces = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const now = Date.now();
+    const namespaces = await Promise.all(
+      listCaches().map(async (cache) => {
+        const storedTimes = (await cache.entries()).map((entry) => entry.storedAt);
+        return {
+          ...cache.stats(),
+          oldestEntryAgeMs: storedTimes.length > 0 ? now - Math.min(...storedTimes) : null,
+          newestEntryAgeMs: storedTimes.length > 0 ? now - Math.max(...storedTimes) : null,
+        };
+      })
+    );
+
+    res.json({
+      success: true,
+      data: namespaces,
+      metadata: {
+        totalCount: namespaces.length,
+        fetchedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to list caches",
+      message: "An error occurred while reading the caches",
+      details: error.message,
+    });
+  }
+};
+
+// Show a namespace's entries, most recently used first
+export const getCacheNamespace = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const cache = findCache(req, res);
+    if (!cache) {
+      return;
+    }
+
+    const { limit } = req.query;
+    const limitNum = limit === undefined ? DEFAULT_ENTRY_LIMIT : parseInt(limit as string, 10);
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > MAX_ENTRY_LIMIT) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid limit",
+        message: `limit must be a number between 1 and ${MAX_ENTRY_LIMIT}`,
+      });
+      return;
+    }
+
+    const now = Date.now();
+    const entries = (await cache.entries()).reverse();
+
+    res.json({
+      success: true,
+      data: {
+        stats: cache.stats(),
+        entries: entries.slice(0, limitNum).map((entry) => ({
+          key: entry.key,
+          storedAt: new Date(entry.storedAt).toISOString(),
+          expiresAt: new Date(entry.expiresAt).toISOString(),
+          ageMs: now - entry.storedAt,
+          value: entry.value,
+        })),
+      },
+      metadata: {
+        namespace: cache.namespace,
+        totalCount: entries.length,
+        fetchedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to read cache",
+      message: "An error occurred while reading the cache",
+      details: error.message,
+    });
+  }
+};
+
+// Empty a whole namespace
+export const clearCacheNamespace = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const cache = findCache(req, res);
+    if (!cache) {
+      return;
+    }
+
+    const cleared = cache.stats().size;
+    await cache.clear();
+    console.log(`Admin cleared cache ${cache.namespace} (${cleared} entries)`);
+
+    res.json({
+      success: true,
+      data: { namespace: cache.namespace, cleared },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to clear cache",
+      message: "An error occurred while clearing the cache",
+      details: error.message,
+    });
+  }
+};
+
+// Delete one entry. Keys are URL-encoded in the path.
+export const deleteCacheEntry = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const cache = findCache(req, res);
+    if (!cache) {
+      return;
+    }
+
+    const { key } = req.params;
+    if (!(await cache.delete(key))) {
+      res.status(404).json({
+        success: false,
+        error: "Cache entry not found",
+        message: `No entry ${key} in cache ${cache.namespace}`,
+      });
+      return;
+    }
+    console.log(`Admin deleted ${key} from cache ${cache.namespace}`);
+
+    res.json({
+      success: true,
+      data: { namespace: cache.namespace, key, deleted: true },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to delete cache entry",
+      message: "An error occurred while deleting the cache entry",
+      details: error.message,
+    });
+  }
+};
+
+// Redo a registrar company lookup from a freshly collected company list, e.g. after it
+// resolved to the wrong company
+export const refreshCompanyLookup = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { registrar } = req.params;
+    const { ipoName } = req.body || {};
+
+    if (!IPOAllotmentService.isSupportedRegistrar(registrar)) {
+      res.status(400).json({
+        success: false,
+        error: "Unsupported registrar",
+        message: `Registrar must be one of: ${IPOAllotmentService.getSupportedRegistrars()
+          .map((config) => config.name)
+          .join(", ")}`,
+      });
+      return;
+    }
+
+    if (typeof ipoName !== "string" || !ipoName.trim()) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields",
+        message: "ipoName is required",
+      });
+      return;
+    }
+
+    const refreshed = await IPOAllotmentService.refreshCompanyLookup(registrar, ipoName.trim());
+    if (!refreshed) {
+      res.status(400).json({
+        success: false,
+        error: "No company lookup",
+        message: `${registrar} checks don't look companies up from a company list`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: refreshed,
+      metadata: {
+        registrar,
+        ipoName: ipoName.trim(),
+        refreshedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to refresh company lookup",
+      message: "An error occurred while refreshing the registrar company list",
+      details: error.message,
+    });
+  }
+};
+
+// Validate an override body, responding with 400 and returning null when it's unusable
+const parseOverrideInput = (req: Request, res: Response): RegistrarOverrideInput | null => {
+  const { registrar, companyCode, ipoName, symbol, slug, note } = req.body || {};
+
+  if (!IPOAllotmentService.isSupportedRegistrar(registrar)) {
+    res.status(400).json({
+      success: false,
+      error: "Unsupported registrar",
+      message: `registrar must be one of: ${IPOAllotmentService.getSupportedRegistrars()
+        .map((config) => config.name)
+        .join(", ")}`,
+    });
+    return null;
+  }
+
+  if (typeof companyCode !== "string" || !companyCode.trim()) {
+    res.status(400).json({
+      success: false,
+      error: "Missing required fields",
+      message: "companyCode is required",
+    });
+    return null;
+  }
+
+  const identifiers = { ipoName, symbol, slug };
+  const invalid = Object.entries(identifiers).find(([, value]) => value !== undefined && typeof value !== "string");
+  if (invalid || (note !== undefined && typeof note !== "string")) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid override",
+      message: `${invalid ? invalid[0] : "note"} must be a string`,
+    });
+    return null;
+  }
+
+  const trimmed = (value?: string) => value?.trim() || undefined;
+  const input: RegistrarOverrideInput = {
+    registrar,
+    companyCode: companyCode.trim(),
+    ipoName: trimmed(ipoName),
+    symbol: trimmed(symbol),
+    slug: trimmed(slug),
+    note: trimmed(note),
+  };
+  if (!input.ipoName && !input.symbol && !input.slug) {
+    res.status(400).json({
+      success: false,
+      error: "Missing required fields",
+      message: "At least one of ipoName, symbol or slug is required to match the override on",
+    });
+    return null;
+  }
+  return input;
+};
+
+const overrideConflict = (res: Response, conflict: RegistrarOverride): void => {
+  res.status(409).json({
+    success: false,
+    error: "Override conflict",
+    message: `Override ${conflict.id} already matches one of these identifiers`,
+    data: conflict,
+  });
+};
+
+// List manual registrar overrides in creation order
+export const listRegistrarOverrides = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  const overrides = RegistrarOverrides.list();
+  res.json({
+    success: true,
+    data: overrides,
+    metadata: {
+      totalCount: overrides.length,
+      fetchedAt: new Date().toISOString(),
+    },
+  });
+};
+
+// Map an IPO name, symbol or slug to a registrar and company code
+export const createRegistrarOverride = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const input = parseOverrideInput(req, res);
+    if (!input) {
+      return;
+    }
+
+    const created = await RegistrarOverrides.create(input);
+    if ("conflict" in created) {
+      overrideConflict(res, created.conflict);
+      return;
+    }
+
+    res.status(201).json({ success: true, data: created.override });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to create override",
+      message: "An error occurred while saving the registrar override",
+      details: error.message,
+    });
+  }
+};
+
+// Replace an override's mapping
+export const updateRegistrarOverride = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const input = parseOverrideInput(req, res);
+    if (!input) {
+      return;
+    }
+
+    const updated = await RegistrarOverrides.update(req.params.id, input);
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        error: "Override not found",
+        message: `No registrar override ${req.params.id}`,
+      });
+      return;
+    }
+    if ("conflict" in updated) {
+      overrideConflict(res, updated.conflict);
+      return;
+    }
+
+    res.json({ success: true, data: updated.override });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to update override",
+      message: "An error occurred while saving the registrar override",
+      details: error.message,
+    });
+  }
+};
+
+export const deleteRegistrarOverride = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!(await RegistrarOverrides.delete(req.params.id))) {
+      res.status(404).json({
+        success: false,
+        error: "Override not found",
+        message: `No registrar override ${req.params.id}`,
+      });
+      return;
+    }
+
+    res.json({ success: true, data: { id: req.params.id, deleted: true } });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to delete override",
+      message: "An error occurred while saving the registrar overrides",
+      details: error.message,
+    });
+  }
+};
@@ -0,0 +1,1194 @@
+import { Request, Response } from "express";
+import { IPOAllotmentService } from "../services/ipoAllotmentService";
+import { AllotmentJobQueue } from "../services/allotmentJobQueue";
+import { AllotmentWatchService } from "../services/allotmentWatch";
+import { checkCallbackUrl } from "../services/callbackUrl";
+import { isAuthorisedDebugToken } from "../services/privacy";
+import { RegistrarDirectory } from "../services/registrarDirectory";
+import { getRegistrar } from "../registrars";
+import {
+  SEARCH_MODES,
+  SEARCH_MODE_LABELS,
+  searchModeOf,
+  supportsSearchMode,
+} from "../services/allotmentSearch";
+import {
+  AllotmentCheckOptions,
+  AllotmentJob,
+  AllotmentSearch,
+  AllotmentWatchStatus,
+  BulkAllotmentApplicant,
+  BulkAllotmentOptions,
+  CheckAllRegistrarsOptions,
+  IPOAllotmentRequest,
+  RegistrarSearchMode,
+  RegistrarType,
+} from "../types/ipoAllotment";
+
+// Registrars only accept the full 10 character PAN
+const PAN_REGEX = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+const APPLICATION_NO_REGEX = /^[A-Z0-9]{1,20}$/;
+// NSDL DP IDs are 'IN' + 6 digits; CDSL BO IDs split into an 8 digit DP ID and 8 digit client ID
+const DP_ID_REGEX = /^(IN[0-9]{6}|[0-9]{8})$/;
+const CLIENT_ID_REGEX = /^[0-9]{8}$/;
+
+// Limits for bulk checks: enough for a family, small enough to finish within a request
+const MAX_BULK_APPLICANTS = 25;
+const MAX_LABEL_LENGTH = 50;
+
+const WATCH_STATUSES: AllotmentWatchStatus[] = ["watching", "completed", "failed", "expired", "cancelled"];
+
+// Identifier fields each search mode needs, with their format checks
+const SEARCH_FIELDS: Record<
+  RegistrarSearchMode,
+  Array<{ field: keyof AllotmentSearch; pattern: RegExp; format: string }>
+> = {
+  pan: [{ field: "panNo", pattern: PAN_REGEX, format: "ABCDE1234F" }],
+  application: [
+    { field: "applicationNo", pattern: APPLICATION_NO_REGEX, format: "up to 20 letters or digits" },
+  ],
+  dpclient: [
+    { field: "dpId", pattern: DP_ID_REGEX, format: "IN123456 or 12345678" },
+    { field: "clientId", pattern: CLIENT_ID_REGEX, format: "12345678" },
+  ],
+};
+
+// Validate the search mode and its identifier, responding with 400 on failure
+const parseAllotmentSearch = (
+  body: any,
+  res: Response
+): AllotmentSearch | null => {
+  const { searchBy = "pan" } = body || {};
+
+  if (!SEARCH_MODES.includes(searchBy)) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid search mode",
+      message: `searchBy must be one of: ${SEARCH_MODES.join(", ")}`,
+    });
+    return null;
+  }
+
+  const search: AllotmentSearch = { searchBy };
+  for (const { field, pattern, format } of SEARCH_FIELDS[searchBy as RegistrarSearchMode]) {
+    const value = body?.[field];
+
+    if (!value) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields",
+        message: `${field} is required when searching by ${searchBy}`,
+      });
+      return null;
+    }
+
+    if (typeof value !== "string") {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        message: `${field} must be a string`,
+      });
+      return null;
+    }
+
+    const normalized = value.trim().toUpperCase();
+    if (!pattern.test(normalized)) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid ${field} format`,
+        message: `${field} should be in format: ${format}`,
+      });
+      return null;
+    }
+    search[field as Exclude<keyof AllotmentSearch, "searchBy">] = normalized;
+  }
+
+  return search;
+};
+
+// Validate and normalise the allotment request body, responding with 400 on failure
+const parseAllotmentRequest = (
+  req: Request,
+  res: Response
+): IPOAllotmentRequest | null => {
+  const { ipoName } = req.body || {};
+
+  if (!ipoName) {
+    res.status(400).json({
+      success: false,
+      error: "Missing required fields",
+      message: "ipoName is required",
+    });
+    return null;
+  }
+
+  if (typeof ipoName !== "string") {
+    res.status(400).json({
+      success: false,
+      error: "Invalid request body",
+      message: "ipoName must be a string",
+    });
+    return null;
+  }
+
+  const normalizedIpoName = ipoName.trim();
+  if (!normalizedIpoName) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid IPO name",
+      message: "ipoName cannot be empty",
+    });
+    return null;
+  }
+
+  const search = parseAllotmentSearch(req.body, res);
+  if (!search) {
+    return null;
+  }
+
+  return {
+    ...search,
+    ipoName: normalizedIpoName,
+  };
+};
+
+// Read the optional flag asking for a fresh registrar check instead of a cached result,
+// responding with 400 on failure
+const parseBypassCache = (req: Request, res: Response): boolean | null => {
+  const { bypassCache = false } = req.body || {};
+
+  if (typeof bypassCache !== "boolean") {
+    res.status(400).json({
+      success: false,
+      error: "Invalid option",
+      message: "bypassCache must be a boolean",
+    });
+    return null;
+  }
+
+  return bypassCache;
+};
+
+// Read the optional debug flag, which returns the registrar's raw response. Raw responses
+// carry other people's names and PANs, so the flag needs the X-Debug-Token header.
+// Responds with 400 or 403 on failure.
+const parseDebugOptions = (
+  req: Request,
+  res: Response
+): AllotmentCheckOptions | null => {
+  const { debug = false } = req.body || {};
+
+  if (typeof debug !== "boolean") {
+    res.status(400).json({
+      success: false,
+      error: "Invalid option",
+      message: "debug must be a boolean",
+    });
+    return null;
+  }
+
+  if (debug && !isAuthorisedDebugToken(req.get("X-Debug-Token"))) {
+    res.status(403).json({
+      success: false,
+      error: "Debug output not allowed",
+      message: "debug requires a valid X-Debug-Token header",
+    });
+    return null;
+  }
+
+  return { includeRaw: debug };
+};
+
+// Check IPO allotment status directly with a specific registrar
+export const checkRegistrarAllotment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { registrar } = req.params;
+
+    if (!IPOAllotmentService.isSupportedRegistrar(registrar)) {
+      res.status(400).json({
+        success: false,
+        error: "Unsupported registrar",
+        message: `Registrar must be one of: ${IPOAllotmentService.getSupportedRegistrars()
+          .map((config) => config.name)
+          .join(", ")}`,
+      });
+      return;
+    }
+
+    const allotmentRequest = parseAllotmentRequest(req, res);
+    if (!allotmentRequest) {
+      return;
+    }
+
+    const adapter = getRegistrar(registrar)!;
+    if (!supportsSearchMode(adapter, searchModeOf(allotmentRequest))) {
+      res.status(400).json({
+        success: false,
+        error: "Unsupported search mode",
+        message: `${adapter.name} can be searched by: ${adapter.capabilities.searchModes
+          .map((mode) => SEARCH_MODE_LABELS[mode])
+          .join(", ")}`,
+      });
+      return;
+    }
+
+    const debugOptions = parseDebugOptions(req, res);
+    if (!debugOptions) {
+      return;
+    }
+
+    const bypassCache = parseBypassCache(req, res);
+    if (bypassCache === null) {
+      return;
+    }
+
+    const result = await IPOAllotmentService.checkRegistrar(
+      registrar,
+      allotmentRequest,
+      { ...debugOptions, bypassCache }
+    );
+
+    if (result.status === "ambiguous") {
+      res.status(409).json({
+        success: false,
+        error: "Ambiguous IPO name",
+        message: result.error,
+        data: result,
+        metadata: {
+          registrar,
+          fetchedAt: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    if (result.status === "upstream_unavailable") {
+      res.status(503).json({
+        success: false,
+        error: "Upstream unavailable",
+        message: result.error,
+        data: result,
+        metadata: {
+          registrar,
+          fetchedAt: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    if (!result.success) {
+      res.status(502).json({
+        success: false,
+        error: "Registrar check failed",
+        message: result.error || `Could not check allotment with ${registrar}`,
+        data: result,
+        metadata: {
+          registrar,
+          fetchedAt: new Date().toISOString(),
+        },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        registrar,
+        fetchedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to check allotment status",
+      message: "An error occurred while checking IPO allotment status with the registrar",
+      details: error.message,
+    });
+  }
+};
+
+// Validate the optional fan-out settings, responding with 400 on failure
+const parseCheckAllOptions = (
+  req: Request,
+  res: Response
+): CheckAllRegistrarsOptions | null => {
+  const { concurrency, registrarTimeoutMs, totalTimeoutMs, stopOnFirstDefinitive } =
+    req.body || {};
+  const options: CheckAllRegistrarsOptions = {};
+
+  const numericOptions = { concurrency, registrarTimeoutMs, totalTimeoutMs };
+  for (const [key, value] of Object.entries(numericOptions)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid option",
+        message: `${key} must be a positive integer`,
+      });
+      return null;
+    }
+    options[key as keyof typeof numericOptions] = value;
+  }
+
+  if (stopOnFirstDefinitive !== undefined) {
+    if (typeof stopOnFirstDefinitive !== "boolean") {
+      res.status(400).json({
+        success: false,
+        error: "Invalid option",
+        message: "stopOnFirstDefinitive must be a boolean",
+      });
+      return null;
+    }
+    options.stopOnFirstDefinitive = stopOnFirstDefinitive;
+  }
+
+  const bypassCache = parseBypassCache(req, res);
+  if (bypassCache === null) {
+    return null;
+  }
+  options.bypassCache = bypassCache;
+
+  return options;
+};
+
+// Read the optional flag asking for a background job, responding with 400 on failure
+const parseAsyncFlag = (req: Request, res: Response): boolean | null => {
+  const { async: runAsync = false } = req.body || {};
+
+  if (typeof runAsync !== "boolean") {
+    res.status(400).json({
+      success: false,
+      error: "Invalid option",
+      message: "async must be a boolean",
+    });
+    return null;
+  }
+
+  return runAsync;
+};
+
+// Respond to a queued job with where to follow it
+const respondWithJob = (res: Response, job: AllotmentJob): void => {
+  res.status(202).json({
+    success: true,
+    data: {
+      jobId: job.id,
+      status: job.status,
+      progress: job.progress,
+    },
+    metadata: {
+      statusUrl: `/api/ipos/jobs/${job.id}`,
+      submittedAt: job.createdAt,
+    },
+  });
+};
+
+// Check IPO allotment status across every supported registrar
+export const checkAllRegistrarsAllotment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const allotmentRequest = parseAllotmentRequest(req, res);
+    if (!allotmentRequest) {
+      return;
+    }
+
+    const options = parseCheckAllOptions(req, res);
+    if (!options) {
+      return;
+    }
+
+    const runAsync = parseAsyncFlag(req, res);
+    if (runAsync === null) {
+      return;
+    }
+
+    const debugOptions = parseDebugOptions(req, res);
+    if (!debugOptions) {
+      return;
+    }
+
+    if (runAsync) {
+      // Raw responses are only returned directly, never kept with a background job
+      if (debugOptions.includeRaw) {
+        res.status(400).json({
+          success: false,
+          error: "Invalid option",
+          message: "debug can't be combined with async; raw responses aren't kept with background jobs",
+        });
+        return;
+      }
+      respondWithJob(res, await AllotmentJobQueue.submitCheckAll(allotmentRequest, options));
+      return;
+    }
+
+    const result = await IPOAllotmentService.checkAllRegistrars(
+      allotmentRequest,
+      { ...options, ...debugOptions }
+    );
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        fetchedAt: new Date().toISOString(),
+        totalRegistrars: result.results.length,
+        successfulRegistrars: result.results.filter((r) => r.success).length,
+        durationMs: result.durationMs,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to check allotment status",
+      message: "An error occurred while checking IPO allotment status across registrars",
+      details: error.message,
+    });
+  }
+};
+
+// Detect the IPO's registrar from metadata, then check allotment with it
+export const checkResolvedRegistrarAllotment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { ipoName, symbol, slug, trendlyneId } = req.body || {};
+    const hints = { ipoName, symbol, slug, trendlyneId };
+
+    if (!ipoName && !symbol && !slug && !trendlyneId) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields",
+        message: "One of ipoName, symbol, slug or trendlyneId is required",
+      });
+      return;
+    }
+
+    const invalidField = Object.entries(hints).find(
+      ([, value]) => value !== undefined && typeof value !== "string"
+    );
+    if (invalidField) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        message: `${invalidField[0]} must be a string`,
+      });
+      return;
+    }
+
+    const search = parseAllotmentSearch(req.body, res);
+    if (!search) {
+      return;
+    }
+
+    const debugOptions = parseDebugOptions(req, res);
+    if (!debugOptions) {
+      return;
+    }
+
+    const bypassCache = parseBypassCache(req, res);
+    if (bypassCache === null) {
+      return;
+    }
+
+    const outcome = await IPOAllotmentService.checkWithResolvedRegistrar(
+      search,
+      {
+        ipoName: ipoName?.trim() || undefined,
+        symbol: symbol?.trim() || undefined,
+        slug: slug?.trim() || undefined,
+        trendlyneId: trendlyneId?.trim() || undefined,
+      },
+      { ...debugOptions, bypassCache }
+    );
+
+    if (!outcome.resolution) {
+      res.status(404).json({
+        success: false,
+        error: "Registrar not found",
+        message: "Could not determine the registrar for this IPO from IPO metadata",
+        data: outcome,
+      });
+      return;
+    }
+
+    const metadata = {
+      registrar: outcome.resolution.registrar,
+      resolvedFrom: outcome.resolution.source,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    if (outcome.result?.status === "unsupported") {
+      res.status(400).json({
+        success: false,
+        error: "Unsupported search mode",
+        message: outcome.result.error,
+        data: outcome,
+        metadata,
+      });
+      return;
+    }
+
+    if (outcome.result?.status === "ambiguous") {
+      res.status(409).json({
+        success: false,
+        error: "Ambiguous IPO name",
+        message: outcome.result.error,
+        data: outcome,
+        metadata,
+      });
+      return;
+    }
+
+    if (outcome.result?.status === "upstream_unavailable") {
+      res.status(503).json({
+        success: false,
+        error: "Upstream unavailable",
+        message: outcome.result.error,
+        data: outcome,
+        metadata,
+      });
+      return;
+    }
+
+    if (!outcome.result?.success) {
+      res.status(502).json({
+        success: false,
+        error: "Registrar check failed",
+        message:
+          outcome.result?.error ||
+          `Could not check allotment with ${outcome.resolution.registrar}`,
+        data: outcome,
+        metadata,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: outcome,
+      metadata,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to check allotment status",
+      message: "An error occurred while detecting the registrar and checking IPO allotment status",
+      details: error.message,
+    });
+  }
+};
+
+// Validate the bulk applicant list, responding with 400 on failure.
+// Each entry is a PAN or { panNo, label }.
+const parseBulkApplicants = (
+  applicants: any,
+  res: Response
+): BulkAllotmentApplicant[] | null => {
+  if (!Array.isArray(applicants) || applicants.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: "Missing required fields",
+      message: "applicants must be a non-empty array of PANs or { panNo, label } objects",
+    });
+    return null;
+  }
+
+  if (applicants.length > MAX_BULK_APPLICANTS) {
+    res.status(400).json({
+      success: false,
+      error: "Too many applicants",
+      message: `At most ${MAX_BULK_APPLICANTS} applicants can be checked at once`,
+    });
+    return null;
+  }
+
+  const parsed: BulkAllotmentApplicant[] = [];
+  const seen = new Set<string>();
+  for (const [index, entry] of applicants.entries()) {
+    const { panNo, label } = typeof entry === "string" ? { panNo: entry, label: undefined } : entry || {};
+
+    if (typeof panNo !== "string" || !PAN_REGEX.test(panNo.trim().toUpperCase())) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid panNo format",
+        message: `applicants[${index}].panNo should be in format: ABCDE1234F`,
+      });
+      return null;
+    }
+
+    if (label !== undefined && (typeof label !== "string" || label.trim().length > MAX_LABEL_LENGTH)) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        message: `applicants[${index}].label must be a string of at most ${MAX_LABEL_LENGTH} characters`,
+      });
+      return null;
+    }
+
+    const normalizedPan = panNo.trim().toUpperCase();
+    if (seen.has(normalizedPan)) {
+      res.status(400).json({
+        success: false,
+        error: "Duplicate applicant",
+        message: `applicants[${index}] repeats a PAN listed earlier`,
+      });
+      return null;
+    }
+    seen.add(normalizedPan);
+
+    parsed.push({ panNo: normalizedPan, label: label?.trim() || undefined });
+  }
+
+  return parsed;
+};
+
+// Validate the optional bulk check settings, responding with 400 on failure
+const parseBulkOptions = (
+  req: Request,
+  res: Response
+): BulkAllotmentOptions | null => {
+  const { concurrency, checkTimeoutMs } = req.body || {};
+  const options: BulkAllotmentOptions = {};
+
+  const numericOptions = { concurrency, checkTimeoutMs };
+  for (const [key, value] of Object.entries(numericOptions)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid option",
+        message: `${key} must be a positive integer`,
+      });
+      return null;
+    }
+    options[key as keyof typeof numericOptions] = value;
+  }
+
+  const bypassCache = parseBypassCache(req, res);
+  if (bypassCache === null) {
+    return null;
+  }
+  options.bypassCache = bypassCache;
+
+  return options;
+};
+
+// Check several PANs (e.g. a family's applications) for one IPO with its registrar
+export const checkBulkAllotment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { registrar, ipoName, symbol, slug, trendlyneId, applicants } = req.body || {};
+    const hints = { ipoName, symbol, slug, trendlyneId };
+
+    if (registrar !== undefined && !IPOAllotmentService.isSupportedRegistrar(registrar)) {
+      res.status(400).json({
+        success: false,
+        error: "Unsupported registrar",
+        message: `Registrar must be one of: ${IPOAllotmentService.getSupportedRegistrars()
+          .map((config) => config.name)
+          .join(", ")}`,
+      });
+      return;
+    }
+
+    const invalidField = Object.entries(hints).find(
+      ([, value]) => value !== undefined && typeof value !== "string"
+    );
+    if (invalidField) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        message: `${invalidField[0]} must be a string`,
+      });
+      return;
+    }
+
+    if (registrar ? !ipoName?.trim() : !ipoName && !symbol && !slug && !trendlyneId) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields",
+        message: registrar
+          ? "ipoName is required when registrar is given"
+          : "One of ipoName, symbol, slug or trendlyneId is required",
+      });
+      return;
+    }
+
+    const parsedApplicants = parseBulkApplicants(applicants, res);
+    if (!parsedApplicants) {
+      return;
+    }
+
+    const options = parseBulkOptions(req, res);
+    if (!options) {
+      return;
+    }
+
+    const runAsync = parseAsyncFlag(req, res);
+    if (runAsync === null) {
+      return;
+    }
+
+    const bulkRequest = {
+      registrar,
+      ipoName: ipoName?.trim() || undefined,
+      symbol: symbol?.trim() || undefined,
+      slug: slug?.trim() || undefined,
+      trendlyneId: trendlyneId?.trim() || undefined,
+      applicants: parsedApplicants,
+    };
+
+    if (runAsync) {
+      respondWithJob(res, await AllotmentJobQueue.submitBulk(bulkRequest, options));
+      return;
+    }
+
+    const outcome = await IPOAllotmentService.checkBulk(bulkRequest, options);
+
+    if (!outcome.registrar) {
+      res.status(404).json({
+        success: false,
+        error: "Registrar not found",
+        message: "Could not determine the registrar for this IPO from IPO metadata",
+        data: outcome,
+      });
+      return;
+    }
+
+    const metadata = {
+      registrar: outcome.registrar,
+      resolvedFrom: outcome.resolution?.source,
+      companyCode: outcome.companyCode,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    if (outcome.failure?.status === "ambiguous") {
+      res.status(409).json({
+        success: false,
+        error: "Ambiguous IPO name",
+        message: outcome.failure.error,
+        data: outcome,
+        metadata,
+      });
+      return;
+    }
+
+    if (outcome.failure?.status === "upstream_unavailable") {
+      res.status(503).json({
+        success: false,
+        error: "Upstream unavailable",
+        message: outcome.failure.error,
+        data: outcome,
+        metadata,
+      });
+      return;
+    }
+
+    if (outcome.failure) {
+      res.status(502).json({
+        success: false,
+        error: "Registrar check failed",
+        message: outcome.failure.error || `Could not check allotment with ${outcome.registrar}`,
+        data: outcome,
+        metadata,
+      });
+      return;
+    }
+
+    // Individual PANs that failed are reported in their rows rather than failing the batch
+    res.json({
+      success: true,
+      data: outcome,
+      metadata,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to check allotment status",
+      message: "An error occurred while checking IPO allotment status for several PANs",
+      details: error.message,
+    });
+  }
+};
+
+// Finish an allotment check that stopped at a registrar captcha
+export const submitCaptchaAnswer = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token, answer } = req.body || {};
+
+    if (!token || !answer) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields",
+        message: "token and answer are required",
+      });
+      return;
+    }
+
+    if (typeof token !== "string" || typeof answer !== "string") {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        message: "token and answer must be strings",
+      });
+      return;
+    }
+
+    const debugOptions = parseDebugOptions(req, res);
+    if (!debugOptions) {
+      return;
+    }
+
+    const result = await IPOAllotmentService.submitCaptcha(token.trim(), answer.trim(), debugOptions);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: "Captcha session not found",
+        message: "The captcha session has expired or was already used. Start the allotment check again.",
+      });
+      return;
+    }
+
+    const metadata = {
+      registrar: result.registrar,
+      fetchedAt: new Date().toISOString(),
+    };
+
+    if (!result.success) {
+      res.status(502).json({
+        success: false,
+        error: "Registrar check failed",
+        message: result.error || `Could not check allotment with ${result.registrar}`,
+        data: result,
+        metadata,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      metadata,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to check allotment status",
+      message: "An error occurred while submitting the captcha answer to the registrar",
+      details: error.message,
+    });
+  }
+};
+
+// Get a background allotment job's progress, partial results and final status
+export const getAllotmentJob = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const job = await AllotmentJobQueue.getJob(req.params.id);
+
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        error: "Job not found",
+        message: "No allotment job with this ID. Finished jobs are kept for an hour.",
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: job,
+      metadata: {
+        fetchedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch job",
+      message: "An error occurred while fetching the allotment job",
+      details: error.message,
+    });
+  }
+};
+
+// Watch a PAN and IPO until the registrar publishes the allotment result
+export const createAllotmentWatch = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { registrar, ipoName, symbol, slug, trendlyneId, label, callbackUrl } = req.body || {};
+    const hints = { ipoName, symbol, slug, trendlyneId };
+
+    if (registrar !== undefined && !IPOAllotmentService.isSupportedRegistrar(registrar)) {
+      res.status(400).json({
+        success: false,
+        error: "Unsupported registrar",
+        message: `Registrar must be one of: ${IPOAllotmentService.getSupportedRegistrars()
+          .map((config) => config.name)
+          .join(", ")}`,
+      });
+      return;
+    }
+
+    const invalidField = Object.entries({ ...hints, label, callbackUrl }).find(
+      ([, value]) => value !== undefined && typeof value !== "string"
+    );
+    if (invalidField) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        message: `${invalidField[0]} must be a string`,
+      });
+      return;
+    }
+
+    if (registrar ? !ipoName?.trim() : !ipoName && !symbol && !slug && !trendlyneId) {
+      res.status(400).json({
+        success: false,
+        error: "Missing required fields",
+        message: registrar
+          ? "ipoName is required when registrar is given"
+          : "One of ipoName, symbol, slug or trendlyneId is required",
+      });
+      return;
+    }
+
+    if (label !== undefined && label.trim().length > MAX_LABEL_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid request body",
+        message: `label must be at most ${MAX_LABEL_LENGTH} characters`,
+      });
+      return;
+    }
+
+    const callbackError = callbackUrl !== undefined ? await checkCallbackUrl(callbackUrl.trim()) : null;
+    if (callbackError) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid callbackUrl",
+        message: callbackError,
+      });
+      return;
+    }
+
+    const search = parseAllotmentSearch(req.body, res);
+    if (!search) {
+      return;
+    }
+
+    const outcome = await AllotmentWatchService.create({
+      ...search,
+      registrar,
+      ipoName: ipoName?.trim() || undefined,
+      symbol: symbol?.trim() || undefined,
+      slug: slug?.trim() || undefined,
+      trendlyneId: trendlyneId?.trim() || undefined,
+      label: label?.trim() || undefined,
+      callbackUrl: callbackUrl?.trim() || undefined,
+    });
+
+    if (!outcome.watch) {
+      const registrarNotFound = !registrar && !outcome.resolution;
+      res.status(registrarNotFound ? 404 : 400).json({
+        success: false,
+        error: registrarNotFound ? "Registrar not found" : "Cannot watch this allotment",
+        message: outcome.error,
+        data: outcome,
+      });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: outcome,
+      metadata: {
+        registrar: outcome.watch.registrar,
+        resolvedFrom: outcome.resolution?.source,
+        statusUrl: `/api/ipos/watches/${outcome.watch.id}`,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to create watch",
+      message: "An error occurred while setting up the allotment watch",
+      details: error.message,
+    });
+  }
+};
+
+// List every user's allotment watches, optionally filtered by status. Admin only.
+export const listAllotmentWatches = (req: Request, res: Response): void => {
+  const { status } = req.query;
+
+  if (status !== undefined && !WATCH_STATUSES.includes(status as AllotmentWatchStatus)) {
+    res.status(400).json({
+      success: false,
+      error: "Invalid status",
+      message: `status must be one of: ${WATCH_STATUSES.join(", ")}`,
+    });
+    return;
+  }
+
+  const watches = AllotmentWatchService.list(status as AllotmentWatchStatus | undefined);
+
+  res.json({
+    success: true,
+    data: watches,
+    metadata: {
+      fetchedAt: new Date().toISOString(),
+      totalCount: watches.length,
+      watching: watches.filter((watch) => watch.status === "watching").length,
+    },
+  });
+};
+
+// Make sure the watch exists and the request carries its owner's token, responding with 404
+// or 403 otherwise
+const checkWatchOwner = (req: Request, res: Response): boolean => {
+  if (!AllotmentWatchService.get(req.params.id)) {
+    res.status(404).json({
+      success: false,
+      error: "Watch not found",
+      message: "No allotment watch with this ID. Finished watches are kept for a week.",
+    });
+    return false;
+  }
+
+  if (!AllotmentWatchService.isOwner(req.params.id, req.get("X-Watch-Token"))) {
+    res.status(403).json({
+      success: false,
+      error: "Forbidden",
+      message: "A watch can only be read or cancelled with the X-Watch-Token returned when it was created",
+    });
+    return false;
+  }
+
+  return true;
+};
+
+// Get one allotment watch with its final result once there is one
+export const getAllotmentWatch = (req: Request, res: Response): void => {
+  if (!checkWatchOwner(req, res)) {
+    return;
+  }
+  const watch = AllotmentWatchService.get(req.params.id);
+
+  res.json({
+    success: true,
+    data: watch,
+    metadata: {
+      fetchedAt: new Date().toISOString(),
+    },
+  });
+};
+
+// Stop an allotment watch
+export const cancelAllotmentWatch = (req: Request, res: Response): void => {
+  if (!checkWatchOwner(req, res)) {
+    return;
+  }
+  const watch = AllotmentWatchService.cancel(req.params.id);
+
+  res.json({
+    success: true,
+    data: watch,
+    metadata: {
+      fetchedAt: new Date().toISOString(),
+    },
+  });
+};
+
+// Get the list of registrars supported for direct allotment checks
+export const getAllotmentRegistrars = (_req: Request, res: Response): void => {
+  const registrars = IPOAllotmentService.getSupportedRegistrars();
+
+  res.json({
+    success: true,
+    data: registrars,
+    metadata: {
+      fetchedAt: new Date().toISOString(),
+      totalCount: registrars.length,
+    },
+  });
+};
+
+// Search the registrar company directory by name or company code
+export const searchRegistrarCompanies = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { q, registrar, limit } = req.query;
+    const query = typeof q === "string" ? q.trim() : "";
+
+    if (
+      registrar !== undefined &&
+      (typeof registrar !== "string" ||
+        !RegistrarDirectory.hasCollector(registrar as RegistrarType))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: "Unsupported registrar",
+        message: `Registrar must be one of: ${RegistrarDirectory.getDirectoryRegistrars().join(", ")}`,
+      });
+      return;
+    }
+
+    const limitNum = limit === undefined ? 50 : parseInt(limit as string, 10);
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 500) {
+      res.status(400).json({
+        success: false,
+        error: "Invalid limit",
+        message: "limit must be a number between 1 and 500",
+      });
+      return;
+    }
+
+    const companies = await RegistrarDirectory.search(
+      query,
+      registrar as RegistrarType | undefined
+    );
+
+    res.json({
+      success: true,
+      data: companies.slice(0, limitNum),
+      metadata: {
+        query,
+        registrar: registrar || null,
+        totalCount: companies.length,
+        fetchedAt: new Date().toISOString(),
+        directory: RegistrarDirectory.getStatus(),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to search registrar companies",
+      message: "An error occurred while searching the registrar company directory",
+      details: error.message,
+    });
+  }
+};
@@ -1,5 +1,10 @@
 import { Request, Response } from "express";
 import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { UpstreamHealthService } from "../services/upstreamHealth";
+import { DeepHealthReport } from "../types/ipoAllotment";
+import { installCircuitBreaker, isUpstreamUnavailable, listCircuitBreakers } from "../services/circuitBreaker";
+import { installRetryPolicy } from "../services/retryPolicy";
+import { createCache } from "../services/cache";
 
 const TRENDLYNE_BASE_URL: string =
   process.env.TRENDLYNE_BASE_URL || "https://trendlyne.com/ipo/api";
@@ -41,8 +46,8 @@ interface IPOScreenerData {
   [key: string]: any;
 }
 
-// Configure axios with default settings
-const apiClient: AxiosInstance = axios.create({
+// Configure axios with default settings, with a circuit breaker and retry policy per upstream host
+const apiClient: AxiosInstance = installRetryPolicy(installCircuitBreaker(axios.create({
   timeout: 30000, // 30 seconds timeout
   headers: {
     "User-Agent":
@@ -61,7 +66,51 @@ const apiClient: AxiosInstance = axios.create({
     "Sec-Fetch-Mode": "cors",
     "Sec-Fetch-Site": "same-origin",
   },
-});
+})));
+
+// An upstream body and when it was fetched, as kept in a source's cache
+interface FetchedData<T> {
+  data: T;
+  fetchedAt: string;
+}
+
+// A cached IPO data source: returns the cached body for a key, or loads it and keeps it for
+// ttlMs. Bodies isUsable rejects (error answers, empty bodies) are returned but not kept, so the
+// next request asks the upstream again.
+const cachedSource = (namespace: string, ttlMs: number) => {
+  const cache = createCache<FetchedData<any>>(namespace, { ttlMs, maxEntries: 200 });
+  return <T = any>(
+    key: string,
+    load: () => Promise<AxiosResponse<T>>,
+    isUsable: (data: T) => boolean = (data) => Boolean(data)
+  ): Promise<FetchedData<T>> =>
+    cache.getOrLoad(
+      key,
+      async () => ({ data: (await load()).data, fetchedAt: new Date().toISOString() }),
+      ({ data }) => (isUsable(data) ? ttlMs : null)
+    );
+};
+
+const fetchTrendlyne = cachedSource("trendlyne", 30 * 60 * 1000); // 30 minutes; listings and company pages change a few times a day
+const fetchIpoDekho = cachedSource("ipodekho", 15 * 60 * 1000); // 15 minutes
+const fetchIpoTrend = cachedSource("ipo-trend", 5 * 60 * 1000); // 5 minutes; subscription figures and GMP move through the day
+
+// Trendlyne answers errors with a 200 and a non-zero head.status
+const isTrendlyneSuccess = (data: any): boolean =>
+  Boolean(data?.head) && (data.head.status === 0 || data.head.status === "0");
+
+// Respond with a 503 when the request failed fast because the upstream's circuit breaker is
+// open. Returns true when it responded.
+const respondIfUpstreamUnavailable = (res: Response, error: any): boolean => {
+  if (!isUpstreamUnavailable(error)) {
+    return false;
+  }
+  res.status(503).json({
+    error: "Upstream unavailable",
+    message: error.message,
+  });
+  return true;
+};
 
 // Get listing details (list of all IPOs) from Trendlyne API
 export const getListingDetails = async (
@@ -69,21 +118,19 @@ export const getListingDetails = async (
   res: Response
 ): Promise<void> => {
   try {
-    const response: AxiosResponse = await apiClient.get(
-      `${TRENDLYNE_BASE_URL}/listing-details/`
+    const { data, fetchedAt } = await fetchTrendlyne(
+      "listing-details",
+      () => apiClient.get(`${TRENDLYNE_BASE_URL}/listing-details/`),
+      isTrendlyneSuccess
     );
 
-    if (
-      response.data &&
-      response.data.head &&
-      (response.data.head.status === 0 || response.data.head.status === "0")
-    ) {
+    if (isTrendlyneSuccess(data)) {
       // Success response from Trendlyne
       res.json({
         success: true,
-        data: response.data.body,
+        data: data.body,
         metadata: {
-          fetchedAt: new Date().toISOString(),
+          fetchedAt,
           source: "trendlyne",
           apiVersion: "listing-details",
         },
@@ -93,10 +140,13 @@ export const getListingDetails = async (
       res.status(404).json({
         error: "Listing data not found",
         message: "No IPO listing data available",
-        details: response.data.head || {},
+        details: data?.head || {},
       });
     }
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch listing details",
       message: "An error occurred while fetching IPO listing data",
@@ -121,25 +171,27 @@ export const getCompanyDetails = async (
       return;
     }
 
-    const response: AxiosResponse<IPOCompanyData> = await apiClient.get(
-      `${TRENDLYNE_BASE_URL}/company-details/${companyId}/`,
-      {
+    const isCompanyData = (data: IPOCompanyData): boolean => Boolean(data) && typeof data === "object";
+    const { data, fetchedAt } = await fetchTrendlyne<IPOCompanyData>(
+      `company-details:${companyId}`,
+      () => apiClient.get(`${TRENDLYNE_BASE_URL}/company-details/${companyId}/`, {
         headers: {
           Referer: "https://trendlyne.com/ipo/",
           Origin: "https://trendlyne.com",
           "X-Requested-With": "XMLHttpRequest",
         },
-      }
+      }),
+      isCompanyData
     );
 
-    if (response.data && typeof response.data === "object") {
+    if (isCompanyData(data)) {
       // Success response from Trendlyne
       res.json({
         success: true,
-        data: response.data,
+        data,
         metadata: {
           companyId,
-          fetchedAt: new Date().toISOString(),
+          fetchedAt,
           source: "trendlyne",
         },
       });
@@ -151,6 +203,9 @@ export const getCompanyDetails = async (
       });
     }
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     if (error.response?.status === 404) {
       res.status(404).json({
         error: "Company not found",
@@ -192,33 +247,30 @@ export const getScreenerData = async (
       return;
     }
 
-    const response: AxiosResponse<IPOScreenerData> = await apiClient.get(
-      `${TRENDLYNE_BASE_URL}/screener-v2/year/${year}/`,
-      {
+    const { data, fetchedAt } = await fetchTrendlyne<IPOScreenerData>(
+      `screener:${year}`,
+      () => apiClient.get(`${TRENDLYNE_BASE_URL}/screener-v2/year/${year}/`, {
         headers: {
           Referer: "https://trendlyne.com/ipo/",
           Origin: "https://trendlyne.com",
           "X-Requested-With": "XMLHttpRequest",
         },
-      }
+      }),
+      isTrendlyneSuccess
     );
 
-    if (
-      response.data &&
-      response.data.head &&
-      (response.data.head.status === 0 || response.data.head.status === "0")
-    ) {
+    if (isTrendlyneSuccess(data)) {
       // Success response from Trendlyne
       res.json({
         success: true,
-        data: response.data.body || {},
+        data: data.body || {},
         metadata: {
           year,
-          fetchedAt: new Date().toISOString(),
+          fetchedAt,
           source: "trendlyne",
-          totalCount: response.data.body?.table?.totalCount || 0,
+          totalCount: data.body?.table?.totalCount || 0,
           apiVersion: "screener-v2",
-          headInfo: response.data.head,
+          headInfo: data.head,
         },
       });
     } else {
@@ -226,10 +278,13 @@ export const getScreenerData = async (
       res.status(404).json({
         error: "Screener data not found",
         message: `No IPO screener data found for year: ${year}`,
-        details: response.data.head || {},
+        details: data?.head || {},
       });
     }
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     if (error.response?.status === 404) {
       res.status(404).json({
         error: "Screener data not found",
@@ -266,28 +321,28 @@ export const getIpoDekhoListing = async (
       type,
     };
 
-    const response: AxiosResponse = await apiClient.post(
-      "https://app.ipodekho.com/GetMainLineIpo",
-      payload,
-      {
+    const { data, fetchedAt } = await fetchIpoDekho(
+      `mainline:${JSON.stringify(payload)}`,
+      () => apiClient.post("https://app.ipodekho.com/GetMainLineIpo", payload, {
+        idempotent: true, // A listing query
         headers: {
           "Content-Type": "application/json",
           Accept: "application/json",
           "User-Agent":
             "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
         },
-      }
+      })
     );
 
-    if (response.data) {
+    if (data) {
       // Success response from IPODekho
       res.json({
         success: true,
-        data: response.data,
+        data,
         metadata: {
           categoryForIPOS: CategoryForIPOS,
           type: type,
-          fetchedAt: new Date().toISOString(),
+          fetchedAt,
         },
       });
     } else {
@@ -295,10 +350,13 @@ export const getIpoDekhoListing = async (
       res.status(404).json({
         error: "Mainline IPO data not found",
         message: "No mainline IPO data available",
-        details: response.data || {},
+        details: data || {},
       });
     }
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch mainline IPO data",
       message:
@@ -324,10 +382,11 @@ export const getIpoDetails = async (
       return;
     }
 
-    const response: AxiosResponse = await apiClient.post(
+    const { data, fetchedAt } = await fetchIpoDekho(`ipo-details:${slug}`, () => apiClient.post(
       `https://app.ipodekho.com/GetSlugByMainLineIpo/${slug}`,
       {},
       {
+        idempotent: true, // A details query
         headers: {
           accept: "application/json, text/plain, */*",
           "accept-language": "en-GB,en-US;q=0.9,en;q=0.8",
@@ -345,16 +404,16 @@ export const getIpoDetails = async (
             "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36",
         },
       }
-    );
+    ));
 
-    if (response.data) {
+    if (data) {
       // Success response from IPODekho
       res.json({
         success: true,
-        data: response.data,
+        data,
         metadata: {
           slug: slug,
-          fetchedAt: new Date().toISOString(),
+          fetchedAt,
         },
       });
     } else {
@@ -362,10 +421,13 @@ export const getIpoDetails = async (
       res.status(404).json({
         error: "IPO details not found",
         message: `No IPO details found for slug: ${slug}`,
-        details: response.data || {},
+        details: data || {},
       });
     }
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch IPO details",
       message: "An error occurred while fetching IPO details from IPODekho",
@@ -403,6 +465,9 @@ export const getAllotedIPOs = async (
       });
     }
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch alloted IPOs",
       message: "An error occurred while fetching alloted IPOs data",
@@ -459,6 +524,7 @@ export const checkAllotmentWithIPONinja = async (
           "https://iponinjaapi.matalia.co.in/api/v1/IpoBids/fetchliveallotment",
           payload,
           {
+            idempotent: true, // An allotment lookup
             headers: {
               "Content-Type": "application/json",
               Accept: "application/json",
@@ -486,6 +552,9 @@ export const checkAllotmentWithIPONinja = async (
       successfulRequests: results.filter((r) => !r.error).length,
     });
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       success: false,
       error: "Failed to check allotment status",
@@ -504,22 +573,24 @@ export const getSubscriptionList = async (
   try {
     const platform = "Android";
 
-    const response: AxiosResponse = await apiClient.get(
-      `${IPO_TREND_BASE_URL}/ipo-subscription-list/`,
-      {
+    const { data, fetchedAt } = await fetchIpoTrend(`subscription-list:${platform}`, () =>
+      apiClient.get(`${IPO_TREND_BASE_URL}/ipo-subscription-list/`, {
         params: { platform },
-      }
+      })
     );
 
     res.json({
       success: true,
-      data: response.data,
+      data,
       metadata: {
-        fetchedAt: new Date().toISOString(),
+        fetchedAt,
         platform,
       },
     });
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch subscription list",
       message: "An error occurred while fetching IPO subscription list",
@@ -536,22 +607,24 @@ export const getBannerList = async (
   try {
     const platform = "Android";
 
-    const response: AxiosResponse = await apiClient.get(
-      `${IPO_TREND_BASE_URL}/banner-ipo-list`,
-      {
+    const { data, fetchedAt } = await fetchIpoTrend(`banner-list:${platform}`, () =>
+      apiClient.get(`${IPO_TREND_BASE_URL}/banner-ipo-list`, {
         params: { platform },
-      }
+      })
     );
 
     res.json({
       success: true,
-      data: response.data,
+      data,
       metadata: {
-        fetchedAt: new Date().toISOString(),
+        fetchedAt,
         platform,
       },
     });
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch banner list",
       message: "An error occurred while fetching banner IPO list",
@@ -568,22 +641,24 @@ export const getIpoList = async (
   try {
     const platform = "Android";
 
-    const response: AxiosResponse = await apiClient.get(
-      `${IPO_TREND_BASE_URL}/list-of-ipo`,
-      {
+    const { data, fetchedAt } = await fetchIpoTrend(`list-of-ipo:${platform}`, () =>
+      apiClient.get(`${IPO_TREND_BASE_URL}/list-of-ipo`, {
         params: { platform },
-      }
+      })
     );
 
     res.json({
       success: true,
-      data: response.data,
+      data,
       metadata: {
-        fetchedAt: new Date().toISOString(),
+        fetchedAt,
         platform,
       },
     });
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch IPO list",
       message: "An error occurred while fetching list of IPOs",
@@ -624,26 +699,32 @@ export const getNewIpoList = async (
       queryParams.append("search", search as string);
     }
 
-    const response: AxiosResponse = await apiClient.post(
-      `${IPO_TREND_BASE_URL}/new-ipo-list?${queryParams.toString()}`,
-      {},
-      {
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-        },
-      }
+    const { data, fetchedAt } = await fetchIpoTrend(`new-ipo-list:${queryParams.toString()}`, () =>
+      apiClient.post(
+        `${IPO_TREND_BASE_URL}/new-ipo-list?${queryParams.toString()}`,
+        {},
+        {
+          idempotent: true, // A listing query
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+        }
+      )
     );
 
     res.json({
       success: true,
-      data: response.data,
+      data,
       metadata: {
-        fetchedAt: new Date().toISOString(),
+        fetchedAt,
         queryParams: Object.fromEntries(queryParams.entries()),
       },
     });
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch new IPO list",
       message: "An error occurred while fetching new IPO list",
@@ -669,23 +750,25 @@ export const getGmpDetails = async (
       return;
     }
 
-    const response: AxiosResponse = await apiClient.get(
-      `${IPO_TREND_BASE_URL}/ipo-gmp-detail/${ipoName}/`,
-      {
+    const { data, fetchedAt } = await fetchIpoTrend(`gmp-detail:${ipoName}:${platform}`, () =>
+      apiClient.get(`${IPO_TREND_BASE_URL}/ipo-gmp-detail/${ipoName}/`, {
         params: { platform },
-      }
+      })
     );
 
     res.json({
       success: true,
-      data: response.data,
+      data,
       metadata: {
-        fetchedAt: new Date().toISOString(),
+        fetchedAt,
         ipoName,
         platform,
       },
     });
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch GMP details",
       message: "An error occurred while fetching IPO GMP details",
@@ -711,23 +794,25 @@ export const getIpoDetailsBySymbol = async (
       return;
     }
 
-    const response: AxiosResponse = await apiClient.get(
-      `${IPO_TREND_BASE_URL}/${symbol}/`,
-      {
+    const { data, fetchedAt } = await fetchIpoTrend(`symbol:${symbol}:${platform}`, () =>
+      apiClient.get(`${IPO_TREND_BASE_URL}/${symbol}/`, {
         params: { platform },
-      }
+      })
     );
 
     res.json({
       success: true,
-      data: response.data,
+      data,
       metadata: {
-        fetchedAt: new Date().toISOString(),
+        fetchedAt,
         symbol,
         platform,
       },
     });
   } catch (error: any) {
+    if (respondIfUpstreamUnavailable(res, error)) {
+      return;
+    }
     res.status(500).json({
       error: "Failed to fetch IPO details",
       message: "An error occurred while fetching IPO details by symbol",
@@ -737,11 +822,32 @@ export const getIpoDetailsBySymbol = async (
 };
 
 // Health check endpoint
-export const healthCheck = (_req: Request, res: Response): void => {
+// Reports the circuit breaker of every upstream host requested so far. With ?deep=true, also
+// reports the latest probes of every registrar and IPO data source.
+export const healthCheck = async (req: Request, res: Response): Promise<void> => {
+  let upstreams: DeepHealthReport | undefined;
+  if (req.query.deep === "true") {
+    try {
+      upstreams = await UpstreamHealthService.getReport();
+    } catch (error: any) {
+      res.status(500).json({
+        error: "Failed to probe upstreams",
+        message: "An error occurred while probing registrars and data sources",
+        details: error.message,
+      });
+      return;
+    }
+  }
+
+  const circuitBreakers = listCircuitBreakers();
+  const breakerOpen = circuitBreakers.some((breaker) => breaker.state !== "closed");
+
   res.json({
-    status: "OK",
+    status: breakerOpen || upstreams?.status === "DEGRADED" ? "DEGRADED" : "OK",
     message: "IPO service is running",
     timestamp: new Date().toISOString(),
+    circuitBreakers,
+    upstreams,
     endpoints: {
       getListingDetails: "/api/ipos/listing-details",
       getCompanyDetails: "/api/ipos/company/:companyId",
@@ -750,6 +856,27 @@ export const healthCheck = (_req: Request, res: Response): void => {
       getIpoDetails: "/api/ipos/ipo-details/:slug",
       getAllotedIPOs: "/api/ipos/allotedipo-list",
       checkAllotmentWithIPONinja: "/api/ipos/check-ipoallotment",
+      getAllotmentRegistrars: "/api/ipos/allotment/registrars",
+      checkAllRegistrarsAllotment: "/api/ipos/allotment/all",
+      checkResolvedRegistrarAllotment: "/api/ipos/allotment/auto",
+      checkBulkAllotment: "/api/ipos/allotment/bulk",
+      submitCaptchaAnswer: "/api/ipos/allotment/captcha",
+      checkRegistrarAllotment: "/api/ipos/allotment/:registrar",
+      searchRegistrarCompanies: "/api/ipos/registrar-companies",
+      getAllotmentJob: "/api/ipos/jobs/:id",
+      createAllotmentWatch: "/api/ipos/watches",
+      listAllotmentWatches: "/api/ipos/watches",
+      getAllotmentWatch: "/api/ipos/watches/:id",
+      cancelAllotmentWatch: "/api/ipos/watches/:id",
+      listCacheNamespaces: "/api/ipos/admin/caches",
+      getCacheNamespace: "/api/ipos/admin/caches/:namespace",
+      clearCacheNamespace: "/api/ipos/admin/caches/:namespace",
+      deleteCacheEntry: "/api/ipos/admin/caches/:namespace/entries/:key",
+      refreshCompanyLookup: "/api/ipos/admin/company-lookups/:registrar/refresh",
+      listRegistrarOverrides: "/api/ipos/admin/overrides",
+      createRegistrarOverride: "/api/ipos/admin/overrides",
+      updateRegistrarOverride: "/api/ipos/admin/overrides/:id",
+      deleteRegistrarOverride: "/api/ipos/admin/overrides/:id",
       getSubscriptionList: "/api/ipos/subscription-list",
       getBannerList: "/api/ipos/banner-list",
       getIpoList: "/api/ipos/ipo-list",
@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseBigshareResponse } from './bigshareParser';
+
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', 'bigshare', name), 'utf8'));
+
+describe('parseBigshareResponse', () => {
+  it('reads an allotted application', () => {
+    expect(parseBigshareResponse(fixture('allotted.json'))).toMatchObject({
+      status: 'allotted',
+      rawStatus: 'ALLOTED',
+      allotmentDetails: {
+        applicationNumber: '1234567890',
+        applicantName: 'RAHUL SHARMA',
+        dpId: 'IN30123456789012',
+        sharesApplied: 1200
+      },
+      summary: { applicationCount: 1, allottedCount: 1 }
+    });
+  });
+
+  it('reads a rejected application', () => {
+    expect(parseBigshareResponse(fixture('not-allotted.json'))).toMatchObject({
+      status: 'not_allotted',
+      rawStatus: 'NON-ALLOTTE',
+      allotmentDetails: { applicationNumber: '1234567891', sharesApplied: 600 }
+    });
+  });
+
+  it('treats "No data found" as no record', () => {
+    expect(parseBigshareResponse(fixture('no-record.json'))).toEqual({ status: 'no_record', rawStatus: 'No data found' });
+  });
+
+  it('accepts the body as a JSON string', () => {
+    const body = readFileSync(path.join(__dirname, '__fixtures__', 'bigshare', 'allotted.json'), 'utf8');
+    expect(parseBigshareResponse(body).status).toBe('allotted');
+  });
+
+  it('leaves a server error unknown', () => {
+    expect(parseBigshareResponse(fixture('error.json'))).toEqual({ status: 'unknown' });
+  });
+});
@@ -0,0 +1,33 @@
+import { AllotmentResultStatus, ParsedAllotmentResult } from '../types/ipoAllotment';
+import { decodeJsonBody, normalizeAllotmentStatus, resultFromApplications, toNumber } from '../services/allotmentResult';
+
+// Parse the FetchIpodetails response: { d: { APPLICATION_NO, Name, DPID, APPLIED, ALLOTED } }
+export function parseBigshareResponse(body: unknown): ParsedAllotmentResult {
+  const parsed = decodeJsonBody(body);
+  if (!parsed || !parsed.d) {
+    return { status: 'unknown' };
+  }
+
+  const data = parsed.d;
+
+  // BigShare fills DPID with "No data found" when the PAN has no application
+  if (!data.APPLICATION_NO || data.DPID === 'No data found') {
+    return { status: 'no_record', rawStatus: data.DPID || undefined };
+  }
+
+  const rawStatus: string = data.ALLOTED || '';
+  let status: AllotmentResultStatus = normalizeAllotmentStatus(rawStatus);
+  if (status === 'unknown') {
+    status = 'pending'; // Application found but the status text is unclear
+  }
+
+  // FetchIpodetails reports a single application
+  return resultFromApplications([{
+    status,
+    rawStatus,
+    applicationNumber: data.APPLICATION_NO,
+    applicantName: data.Name,
+    dpId: data.DPID,
+    sharesApplied: toNumber(data.APPLIED)
+  }]);
+}
@@ -0,0 +1,41 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseCameoResponse } from './cameoParser';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', 'cameo', name), 'utf8');
+
+describe('parseCameoResponse', () => {
+  it('reads an allotted holding from the update panel', () => {
+    expect(parseCameoResponse(fixture('allotted.txt'))).toMatchObject({
+      status: 'allotted',
+      rawStatus: '104',
+      allotmentDetails: { dpId: '1203320012345678', sharesAllotted: 104, refundAmount: 0, refundMode: 'ASBA' }
+    });
+  });
+
+  it('reads a holding without shares as not allotted', () => {
+    expect(parseCameoResponse(fixture('not-allotted.txt'))).toMatchObject({
+      status: 'not_allotted',
+      allotmentDetails: { sharesAllotted: 0, refundAmount: 14872 }
+    });
+  });
+
+  it('reads an allotted count that is not a number as pending', () => {
+    expect(parseCameoResponse(fixture('pending.txt'))).toMatchObject({
+      status: 'pending',
+      rawStatus: '-',
+      allotmentDetails: { dpId: '1203320012345678', refundMode: 'ASBA' }
+    });
+  });
+
+  it('reads "NO DATA FOUND" as no record', () => {
+    expect(parseCameoResponse(fixture('no-record.txt'))).toMatchObject({ status: 'no_record' });
+  });
+
+  it('reports the captcha popup as captcha required', () => {
+    expect(parseCameoResponse(fixture('error.txt'))).toEqual({
+      status: 'captcha_required',
+      rawStatus: 'Oops!..Please enter the Captcha'
+    });
+  });
+});
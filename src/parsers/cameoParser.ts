@@ -0,0 +1,81 @@
+import * as cheerio from 'cheerio';
+import { AllotmentApplication, AllotmentResultStatus, ParsedAllotmentResult } from '../types/ipoAllotment';
+import {
+  DEFINITIVE_STATUSES,
+  normalizeAllotmentStatus,
+  resultFromApplications,
+  statusFromShares,
+  toNumber
+} from '../services/allotmentResult';
+
+// The popup script Cameo returns when the captcha was wrong or missing
+const CAPTCHA_SCRIPT = "showpop6('Oops!..Please enter the Captcha')";
+
+// Parse Cameo's ASP.NET AJAX postback. The body is a delta such as
+// "1|#||4|8505|updatePanel|OrdersPanel|<html>", whose divgrid1 table has the columns
+// HOLD_ID | ALLOTTED_SHARES | REFUND_AMOUNT | REFUND_MODE | PAN_NO
+export function parseCameoResponse(responseHtml: string): ParsedAllotmentResult {
+  if (responseHtml.includes(CAPTCHA_SCRIPT)) {
+    return { status: 'captcha_required', rawStatus: 'Oops!..Please enter the Captcha' };
+  }
+
+  let htmlContent = responseHtml;
+  if (responseHtml.includes('|updatePanel|OrdersPanel|')) {
+    const parts = responseHtml.split('|updatePanel|OrdersPanel|');
+    if (parts.length > 1) {
+      htmlContent = parts[1];
+    }
+  }
+
+  const $ = cheerio.load(htmlContent);
+  let status: AllotmentResultStatus = 'no_record';
+  let rawStatus: string | undefined;
+  const applications: AllotmentApplication[] = [];
+
+  if (htmlContent.includes('NO DATA FOUND')) {
+    rawStatus = 'NO DATA FOUND';
+  }
+
+  $('table').each((_, table) => {
+    const rows = $(table).find('tr');
+    if (rows.length === 0) return;
+
+    const headers = rows.first().find('th, td').map((_, cell) => $(cell).text().trim()).get();
+    const hasExpectedHeaders = headers.some((header) =>
+      /HOLD_ID|ALLOTTED_SHARES|REFUND_AMOUNT|REFUND_MODE|PAN_NO/.test(header));
+    if (!hasExpectedHeaders && headers.length < 4) return;
+
+    rows.slice(1).each((_, row) => {
+      const cellTexts = $(row).find('td').map((_, cell) => $(cell).text().trim()).get();
+      if (cellTexts.length === 0) return;
+
+      if (cellTexts.some((text) => /NO (DATA|RECORD) FOUND/.test(text))) {
+        status = 'no_record';
+        rawStatus = cellTexts.join(' ');
+      } else if (cellTexts.length >= 4 && cellTexts[0]) {
+        // A count that isn't a number (blank, "-", "Pending") means the basis isn't final yet
+        const sharesAllotted = toNumber(cellTexts[1]);
+        applications.push({
+          status: sharesAllotted === undefined ? 'pending' : statusFromShares(sharesAllotted),
+          rawStatus: cellTexts[1],
+          dpId: cellTexts[0],
+          sharesAllotted,
+          refundAmount: toNumber(cellTexts[2]),
+          refundMode: cellTexts[3] || undefined
+        });
+      }
+    });
+  });
+
+  // A result message outside the table can settle a page that had no rows
+  const resultDiv = $('#divgrid1, .table-responsive, .result');
+  const resultText = resultDiv.text().trim();
+  if (resultText) {
+    const resultStatus = normalizeAllotmentStatus(resultText);
+    if (resultStatus === 'no_record' || (applications.length === 0 && DEFINITIVE_STATUSES.includes(resultStatus))) {
+      return { status: resultStatus, rawStatus: resultText };
+    }
+  }
+
+  return applications.length > 0 ? resultFromApplications(applications) : { status, rawStatus };
+}
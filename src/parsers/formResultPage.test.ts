@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseFormResultPage } from '.';
+
+// Result pages of the form-based registrars (Beetal, MAS) are read by their table headers
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', 'form', name), 'utf8');
+
+describe('parseFormResultPage', () => {
+  it('reads one application per row, keeping the status column out of the share counts', () => {
+    const result = parseFormResultPage(fixture('allotted.html'));
+
+    expect(result).toMatchObject({
+      status: 'allotted',
+      allotmentDetails: { applicationNumber: '8800011223', category: 'Retail', sharesApplied: 100, sharesAllotted: 50 },
+      summary: { applicationCount: 2, allottedCount: 1, totalSharesApplied: 200, totalSharesAllotted: 50 }
+    });
+    expect(result.applications?.map((application) => application.status)).toEqual(['allotted', 'not_allotted']);
+  });
+
+  it('reads a two-column details table', () => {
+    expect(parseFormResultPage(fixture('not-allotted.html'))).toMatchObject({
+      status: 'not_allotted',
+      allotmentDetails: {
+        applicationNumber: '8800011225',
+        applicantName: 'KAVYA REDDY',
+        sharesApplied: 200,
+        sharesAllotted: 0,
+        refundAmount: 28000
+      }
+    });
+  });
+
+  it('reads the "No Record Found" message as no record', () => {
+    expect(parseFormResultPage(fixture('no-record.html'))).toEqual({ status: 'no_record', rawStatus: 'No Record Found' });
+  });
+
+  it('reports a captcha error as captcha required', () => {
+    expect(parseFormResultPage(fixture('error.html'))).toEqual({
+      status: 'captcha_required',
+      rawStatus: 'Invalid Captcha. Please try again.'
+    });
+  });
+});
@@ -0,0 +1,10 @@
+// Pure parsers for registrar responses: each takes a response body and returns the
+// normalised status and details, without making any requests
+export { parseBigshareResponse } from './bigshareParser';
+export { parseKfintechResponse } from './kfintechParser';
+export { parseMufgResponse } from './mufgParser';
+export { parsePurvaResponse } from './purvaParser';
+export { parseCameoResponse } from './cameoParser';
+export { parseSkylineResponse, parseSkylineApplicationPage } from './skylineParser';
+export { parseMaashitlaResponse } from './maashitlaParser';
+export { parseResultPage as parseFormResultPage } from '../services/allotmentResult';
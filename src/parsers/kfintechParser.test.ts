@@ -0,0 +1,45 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseKfintechResponse } from './kfintechParser';
+
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', 'kfintech', name), 'utf8'));
+
+describe('parseKfintechResponse', () => {
+  it('reads an allotted application', () => {
+    expect(parseKfintechResponse(fixture('allotted.json'))).toMatchObject({
+      status: 'allotted',
+      rawStatus: 'Allotted',
+      allotmentDetails: {
+        applicationNumber: '7000123456',
+        applicantName: 'PRIYA NAIR',
+        sharesAllotted: 28,
+        refundAmount: 0
+      }
+    });
+  });
+
+  it('reads a rejected application with its refund', () => {
+    expect(parseKfintechResponse(fixture('not-allotted.json'))).toMatchObject({
+      status: 'not_allotted',
+      allotmentDetails: { sharesAllotted: 0, refundAmount: 14896 },
+      summary: { totalRefundAmount: 14896 }
+    });
+  });
+
+  it('reads a "no record" error as no record', () => {
+    expect(parseKfintechResponse(fixture('no-record.json'))).toEqual({ status: 'no_record', rawStatus: 'No record found' });
+  });
+
+  it('leaves other errors unknown, keeping the message', () => {
+    expect(parseKfintechResponse(fixture('error.json'))).toEqual({
+      status: 'unknown',
+      rawStatus: 'Please try again after some time'
+    });
+  });
+
+  it('leaves a body that is not the API JSON unknown', () => {
+    expect(parseKfintechResponse('')).toEqual({ status: 'unknown' });
+    expect(parseKfintechResponse('<html>Service Unavailable</html>')).toEqual({ status: 'unknown' });
+  });
+});
@@ -0,0 +1,36 @@
+import { ParsedAllotmentResult } from '../types/ipoAllotment';
+import { normalizeAllotmentStatus, resultFromApplications, statusFromShares, toNumber } from '../services/allotmentResult';
+
+// Parse the KFintech query API response: { status, data: { allotted, applicationNumber, ... } } or { error }
+// Bodies that aren't the API's JSON, and errors other than "no record", are left unknown.
+export function parseKfintechResponse(body: any): ParsedAllotmentResult {
+  if (!body || typeof body !== 'object') {
+    return { status: 'unknown' };
+  }
+
+  if (body.status === 'success' || body.data) {
+    const data = body.data || body;
+    const sharesAllotted = toNumber(data.allotted);
+    const rawStatus = typeof data.status === 'string' ? data.status : undefined;
+
+    if (sharesAllotted === undefined && data.status !== 'not_allotted') {
+      return { status: 'no_record', rawStatus };
+    }
+
+    return resultFromApplications([{
+      status: statusFromShares(sharesAllotted ?? 0),
+      rawStatus,
+      sharesAllotted: sharesAllotted ?? 0,
+      applicationNumber: data.applicationNumber || undefined,
+      applicantName: data.applicantName || undefined,
+      refundAmount: toNumber(data.refundAmount)
+    }]);
+  }
+
+  if (body.error) {
+    const rawStatus = String(body.error);
+    return { status: normalizeAllotmentStatus(rawStatus), rawStatus };
+  }
+
+  return { status: 'no_record' };
+}
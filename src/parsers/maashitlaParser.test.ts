@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseMaashitlaResponse } from './maashitlaParser';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', 'maashitla', name), 'utf8');
+
+describe('parseMaashitlaResponse', () => {
+  it('reads an allotted record', () => {
+    expect(parseMaashitlaResponse(JSON.parse(fixture('allotted.json')))).toMatchObject({
+      status: 'allotted',
+      rawStatus: 'Allotted',
+      allotmentDetails: {
+        applicationNumber: '5500012345',
+        applicantName: 'SURESH PATEL',
+        dpId: '1208870000123456',
+        sharesApplied: 2400,
+        sharesAllotted: 1200
+      }
+    });
+  });
+
+  it('reads a list of records', () => {
+    expect(parseMaashitlaResponse(JSON.parse(fixture('not-allotted.json')))).toMatchObject({
+      status: 'not_allotted',
+      rawStatus: 'Not Allotted',
+      allotmentDetails: { sharesApplied: 2400, sharesAllotted: 0 }
+    });
+  });
+
+  it('treats an empty record as no record', () => {
+    expect(parseMaashitlaResponse(JSON.parse(fixture('no-record.json')))).toMatchObject({ status: 'no_record' });
+  });
+
+  it('leaves an HTML error page unknown', () => {
+    expect(parseMaashitlaResponse(fixture('error.html'))).toEqual({ status: 'unknown' });
+  });
+});
@@ -0,0 +1,48 @@
+import { AllotmentApplication, AllotmentResultStatus, ParsedAllotmentResult } from '../types/ipoAllotment';
+import {
+  mapResultColumns,
+  normalizeAllotmentStatus,
+  parseResultPage,
+  resultFromApplications,
+  statusFromShares
+} from '../services/allotmentResult';
+
+// Parse the PublicIssues/Search response: a JSON record (or array of records) with fields
+// such as application_Number, name, client_Id, share_Applied and share_Alloted.
+// Older deployments answer with an HTML fragment instead, read like any result page.
+export function parseMaashitlaResponse(body: unknown): ParsedAllotmentResult {
+  if (typeof body === 'string') {
+    return parseResultPage(body);
+  }
+
+  // Empty records (every field null or blank) stand for "not found"
+  const records: any[] = (Array.isArray(body) ? body : [body])
+    .filter((record) => record && typeof record === 'object')
+    .filter((record) => Object.values(record).some((value) => value !== null && value !== ''));
+
+  const parsed = records.map(parseRecord);
+  const applications = parsed.filter((application) => application.status !== 'no_record');
+
+  if (applications.length === 0) {
+    return { status: 'no_record', rawStatus: parsed[0]?.rawStatus };
+  }
+  return resultFromApplications(applications);
+}
+
+// Read one record; without an application number, share counts or status it is a "not found" reply
+function parseRecord(record: any): AllotmentApplication {
+  const keys = Object.keys(record);
+  const details = mapResultColumns(keys, keys.map((key) => (record[key] ?? '').toString()));
+  const rawStatus: string | undefined = record.status || record.allotment_Status || record.allotmentStatus || undefined;
+
+  let status: AllotmentResultStatus = 'unknown';
+  if (details.sharesAllotted !== undefined) {
+    status = statusFromShares(details.sharesAllotted);
+  } else if (rawStatus) {
+    status = normalizeAllotmentStatus(rawStatus);
+  } else if (!details.applicationNumber && details.sharesApplied === undefined) {
+    status = 'no_record';
+  }
+
+  return { ...details, status, rawStatus };
+}
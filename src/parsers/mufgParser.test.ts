@@ -0,0 +1,51 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseMufgResponse } from './mufgParser';
+
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(path.join(__dirname, '__fixtures__', 'mufg', name), 'utf8'));
+
+describe('parseMufgResponse', () => {
+  it('reads every application, allotted when any got shares', () => {
+    const result = parseMufgResponse(fixture('allotted.json'));
+
+    expect(result).toMatchObject({
+      status: 'allotted',
+      allotmentDetails: {
+        applicantName: 'ANITA DESAI',
+        dpId: '1208160012345678',
+        category: 'RETAIL INDIVIDUAL INVESTOR',
+        sharesApplied: 40,
+        sharesAllotted: 40
+      },
+      summary: { applicationCount: 2, allottedCount: 1, totalSharesApplied: 80, totalSharesAllotted: 40, totalRefundAmount: 14800 }
+    });
+    expect(result.applications?.map((application) => application.status)).toEqual(['allotted', 'not_allotted']);
+  });
+
+  it('reports the demat account as dpId, not as an application number', () => {
+    const [application] = parseMufgResponse(fixture('allotted.json')).applications || [];
+
+    expect(application.dpId).toBe('1208160012345678');
+    expect(application.applicationNumber).toBeUndefined();
+  });
+
+  it('reads an entity-escaped payload', () => {
+    expect(parseMufgResponse(fixture('not-allotted.json'))).toMatchObject({
+      status: 'not_allotted',
+      rawStatus: '0',
+      allotmentDetails: { sharesAllotted: 0, refundAmount: 14800 }
+    });
+  });
+
+  it('reads the Table1 message as no record', () => {
+    expect(parseMufgResponse(fixture('no-record.json'))).toEqual({
+      status: 'no_record',
+      rawStatus: 'Record not found for the PAN entered.'
+    });
+  });
+
+  it('leaves a web method error unknown', () => {
+    expect(parseMufgResponse(fixture('error.json'))).toEqual({ status: 'unknown' });
+  });
+});
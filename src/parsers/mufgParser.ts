@@ -0,0 +1,43 @@
+import * as cheerio from 'cheerio';
+import { AllotmentApplication, ParsedAllotmentResult } from '../types/ipoAllotment';
+import { decodeJsonBody, resultFromApplications, statusFromShares, toNumber } from '../services/allotmentResult';
+
+// Parse the SearchOnPan response (also used for Link Intime): { d: "<NewDataSet><Table>...</Table></NewDataSet>" }.
+// Applications come back as Table elements; Table1 carries the message when nothing matches.
+export function parseMufgResponse(body: unknown): ParsedAllotmentResult {
+  const parsed = decodeJsonBody(body);
+  if (!parsed || !parsed.d) {
+    return { status: 'unknown' };
+  }
+
+  // Parse as XML: in HTML mode the parser moves unknown children out of <Table>, losing every field.
+  // The payload may arrive entity-escaped, as it does from GetDetails.
+  const xmlData = String(parsed.d).replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  const $ = cheerio.load(xmlData, { xmlMode: true });
+  const applications = $('Table');
+
+  if (applications.length === 0) {
+    return { status: 'no_record', rawStatus: $('Table1').find('Msg').text().trim() || undefined };
+  }
+
+  // One Table per application, e.g. one per category the PAN applied under
+  return resultFromApplications(applications.toArray().map((element): AllotmentApplication => {
+    const application = $(element);
+    const allotted = application.find('ALLOT').text().trim();
+    const sharesAllotted = allotted === '' ? 0 : toNumber(allotted);
+    const dpClientId = application.find('DPCLITID').text().trim();
+
+    return {
+      // A non-numeric ALLOT value means the basis isn't final yet
+      status: sharesAllotted === undefined ? 'pending' : statusFromShares(sharesAllotted),
+      rawStatus: allotted,
+      // SearchOnPan has no application number; DPCLITID is the demat account, reported as dpId
+      applicantName: application.find('NAME1').text().trim() || undefined,
+      dpId: dpClientId || undefined,
+      category: application.find('PEMNDG').text().trim() || undefined,
+      sharesApplied: toNumber(application.find('SHARES').text()),
+      sharesAllotted,
+      refundAmount: toNumber(application.find('RFNDAMT').text())
+    };
+  }));
+}
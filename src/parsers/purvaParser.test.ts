@@ -0,0 +1,45 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parsePurvaResponse } from './purvaParser';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', 'purva', name), 'utf8');
+
+describe('parsePurvaResponse', () => {
+  it('reads an allotted application by its headers', () => {
+    expect(parsePurvaResponse(fixture('allotted.html'))).toMatchObject({
+      status: 'allotted',
+      allotmentDetails: {
+        applicantName: 'VIKRAM SINGH',
+        applicationNumber: '2400018823',
+        sharesApplied: 1000,
+        sharesAllotted: 1000,
+        refundAmount: 0
+      }
+    });
+  });
+
+  it('reads a rejected application with its refund', () => {
+    expect(parsePurvaResponse(fixture('not-allotted.html'))).toMatchObject({
+      status: 'not_allotted',
+      allotmentDetails: { sharesAllotted: 0, refundAmount: 126000 }
+    });
+  });
+
+  it('treats a header row alone as no record', () => {
+    expect(parsePurvaResponse(fixture('no-record.html'))).toEqual({ status: 'no_record' });
+  });
+
+  it('reads a blank allotted count as pending', () => {
+    expect(parsePurvaResponse(fixture('pending.html'))).toMatchObject({
+      status: 'pending',
+      allotmentDetails: { applicationNumber: '2400018823', sharesApplied: 1000 }
+    });
+  });
+
+  it('leaves an error page without a result table unknown', () => {
+    expect(parsePurvaResponse(fixture('error.html'))).toEqual({
+      status: 'unknown',
+      rawStatus: 'Something went wrong. Please try again later.'
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import * as cheerio from 'cheerio';
+import { AllotmentApplication, ParsedAllotmentResult } from '../types/ipoAllotment';
+import { mapResultColumns, resultFromApplications, statusFromShares } from '../services/allotmentResult';
+
+// Parse the IPO query result page. Purva answers a query with a table; a header row alone means
+// no record, and data rows are read by their headers:
+// Name | Application Number | Pan No | DPID - Client Id | Shares Applied | Shares Allotted | Refund Amount
+// A page without the table is an error page ("Something went wrong"), which says nothing about
+// the application.
+export function parsePurvaResponse(html: string): ParsedAllotmentResult {
+  const $ = cheerio.load(html);
+  const table = $('table').first();
+  if (table.length === 0) {
+    return { status: 'unknown', rawStatus: $('body').text().replace(/\s+/g, ' ').trim() || undefined };
+  }
+
+  const rows = table.find('tr');
+  if (rows.length <= 1) {
+    return { status: 'no_record' };
+  }
+
+  const headers = rows.first().find('th, td').map((_, cell) => $(cell).text().trim()).get();
+
+  // One row per application. An allotted count that isn't a number (blank, "-", "Pending") means
+  // the basis isn't final yet.
+  const applications = rows.slice(1).toArray().map((row): AllotmentApplication => {
+    const cells = $(row).find('td').map((_, cell) => $(cell).text().trim()).get();
+    const details = mapResultColumns(headers, cells);
+    return {
+      ...details,
+      status: details.sharesAllotted === undefined ? 'pending' : statusFromShares(details.sharesAllotted)
+    };
+  });
+
+  return resultFromApplications(applications);
+}
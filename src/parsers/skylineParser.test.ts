@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseSkylineApplicationPage, parseSkylineResponse } from './skylineParser';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', 'skyline', name), 'utf8');
+
+describe('parseSkylineResponse', () => {
+  it('reads an allotted application by its headers', () => {
+    expect(parseSkylineResponse(fixture('allotted.html'))).toMatchObject({
+      status: 'allotted',
+      allotmentDetails: {
+        applicationNumber: '3100045678',
+        applicantName: 'MEERA IYER',
+        dpId: 'IN30021411223344',
+        sharesApplied: 3000,
+        sharesAllotted: 1500,
+        amount: 150000
+      }
+    });
+  });
+
+  it('reads an application without shares as not allotted', () => {
+    expect(parseSkylineResponse(fixture('not-allotted.html'))).toMatchObject({
+      status: 'not_allotted',
+      allotmentDetails: { sharesAllotted: 0 }
+    });
+  });
+
+  it('reads the "No Record Found" message as no record', () => {
+    expect(parseSkylineResponse(fixture('no-record.html'))).toEqual({ status: 'no_record' });
+  });
+
+  it('leaves an error page unknown, keeping its message', () => {
+    expect(parseSkylineResponse(fixture('error.html'))).toEqual({
+      status: 'unknown',
+      rawStatus: 'Invalid PAN Number entered'
+    });
+  });
+});
+
+describe('parseSkylineApplicationPage', () => {
+  it('flags an application table for manual review', () => {
+    expect(parseSkylineApplicationPage(fixture('allotted.html'))).toEqual({
+      status: 'unknown',
+      rawStatus: 'Check Raw Data - Manual Review Needed'
+    });
+  });
+
+  it('reads the "No Record Found" message as no record', () => {
+    expect(parseSkylineApplicationPage(fixture('no-record.html'))).toEqual({ status: 'no_record' });
+  });
+});
@@ -0,0 +1,86 @@
+import * as cheerio from 'cheerio';
+import { AllotmentApplication, ParsedAllotmentResult } from '../types/ipoAllotment';
+import {
+  mapResultColumns,
+  normalizeAllotmentStatus,
+  resultFromApplications,
+  statusFromShares
+} from '../services/allotmentResult';
+
+const NO_RECORD_PATTERN = /no record found|no data found|record not found|no application found|application not found/;
+const ERROR_PATTERN = /error|invalid|please try again|no data available/;
+
+// A table row that holds an application rather than layout: a PAN, an application number or share counts
+function hasApplicationData(cellTexts: string[]): boolean {
+  return cellTexts.some((text) =>
+    text.length > 3 &&
+    !/select|choose/i.test(text) &&
+    (/[A-Z]{5}[0-9]{4}[A-Z]/.test(text) || /\d{6,}/.test(text) || /shares|amount/i.test(text)));
+}
+
+// Parse the page Skyline returns after the PAN form is submitted
+export function parseSkylineResponse(html: string): ParsedAllotmentResult {
+  const $ = cheerio.load(html);
+  const bodyText = $('body').text().toLowerCase();
+  const fullHtml = html.toLowerCase();
+
+  if (NO_RECORD_PATTERN.test(bodyText) || fullHtml.includes('no record') || fullHtml.includes('not found')) {
+    return { status: 'no_record' };
+  }
+  // An error page says nothing about the application; keep its message
+  if (ERROR_PATTERN.test(bodyText)) {
+    const message = $('body *')
+      .filter((_, element) => $(element).children().length === 0)
+      .map((_, element) => $(element).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .find((text) => ERROR_PATTERN.test(text.toLowerCase()));
+    return { status: 'unknown', rawStatus: message };
+  }
+
+  const applications: AllotmentApplication[] = [];
+
+  $('table').each((_, table) => {
+    const rows = $(table).find('tr');
+    if (rows.length <= 1) return;
+
+    const headers = rows.first().find('th, td').map((_, cell) => $(cell).text().trim()).get();
+
+    rows.slice(1).each((_, row) => {
+      const cellTexts = $(row).find('td').map((_, cell) => $(cell).text().trim()).get();
+      if (!hasApplicationData(cellTexts)) return;
+
+      const allotmentDetails = mapResultColumns(headers, cellTexts);
+
+      // Prefer the share count; fall back to the row's wording, and leave unclear rows as unknown
+      applications.push({
+        ...allotmentDetails,
+        status: allotmentDetails.sharesAllotted !== undefined
+          ? statusFromShares(allotmentDetails.sharesAllotted)
+          : normalizeAllotmentStatus(cellTexts.join(' ')),
+        rawStatus: cellTexts.join(' | ')
+      });
+    });
+  });
+
+  // If no actual data found in tables, it's likely "No Record Found"
+  return resultFromApplications(applications);
+}
+
+// Parse Skyline's application page when it has no PAN form to submit
+export function parseSkylineApplicationPage(html: string): ParsedAllotmentResult {
+  const $ = cheerio.load(html);
+  const pageText = $('body').text().toLowerCase();
+
+  if (/no record|not found|no data|no application|record not available/.test(pageText)) {
+    return { status: 'no_record' };
+  }
+
+  const hasApplicationTable = $('table').toArray().some((table) => {
+    const tableText = $(table).text().toLowerCase();
+    return tableText.includes('application') && /number|pan|shares/.test(tableText);
+  });
+
+  return hasApplicationTable
+    ? { status: 'unknown', rawStatus: 'Check Raw Data - Manual Review Needed' }
+    : { status: 'no_record' };
+}
@@ -0,0 +1,29 @@
+import { probeRegistrarUrl } from '../services/registrarClient';
+import { htmlMarker } from '../services/healthMarkers';
+import { collectCompaniesFromPage } from '../services/registrarDirectory';
+import { parseFormResultPage } from '../parsers';
+import { checkFormRegistrar, submitFormCaptcha } from './formRegistrar';
+import { registerRegistrar } from './registry';
+
+// Beetal answers allotment queries through a plain HTML form
+const FORM_URL = 'https://www.beetalfinancial.com/ipo_status.php';
+
+registerRegistrar({
+  key: 'beetal',
+  name: 'Beetal Financial & Computer Services',
+  website: 'https://www.beetalfinancial.com',
+  capabilities: {
+    searchModes: ['pan', 'application'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'html'
+  },
+  metadataPattern: /beetal/i,
+  listCompanies: () => collectCompaniesFromPage(FORM_URL),
+  check: (request, signal) => checkFormRegistrar('beetal', 'Beetal Financial & Computer Services', FORM_URL, request, signal),
+  parse: parseFormResultPage,
+  probe: (signal) => probeRegistrarUrl(FORM_URL, signal, [htmlMarker('form select')]),
+  submitCaptcha: (request, state, answer, signal) =>
+    submitFormCaptcha('beetal', 'Beetal Financial & Computer Services', FORM_URL, request, state, answer, signal)
+});
@@ -0,0 +1,139 @@
+import { AxiosResponse } from 'axios';
+import * as cheerio from 'cheerio';
+import { CompanyOption, IPOAllotmentRequest, IPOAllotmentResponse, RegistrarSearchMode } from '../types/ipoAllotment';
+import { registrarApiClient as apiClient, probeRegistrarUrl } from '../services/registrarClient';
+import { isTransientFailure } from '../services/circuitBreaker';
+import { htmlMarker } from '../services/healthMarkers';
+import { extractSelectOptions } from '../services/registrarDirectory';
+import { ambiguousCompanyResponse, companyNotFoundResponse, lookupCompanyId } from '../services/companyLookup';
+import { decodeJsonBody } from '../services/allotmentResult';
+import { searchModeOf } from '../services/allotmentSearch';
+import { parseBigshareResponse } from '../parsers';
+import { registerRegistrar } from './registry';
+
+const BASE_URL = 'https://ipo.bigshareonline.com';
+
+// FetchIpodetails SelectionType for each search mode
+const SELECTION_TYPES: Record<RegistrarSearchMode, string> = {
+  pan: 'PN',
+  application: 'AN',
+  dpclient: 'DC'
+};
+
+// BigShare lists companies in the ddlCompany dropdown on its home page
+async function listBigshareCompanies(): Promise<CompanyOption[]> {
+  const urlsToTry = [
+    `${BASE_URL}/`,
+    `${BASE_URL}/Default.aspx`
+  ];
+  const selectors = [
+    'select#ddlCompany option',
+    'select[name="ddlCompany"] option',
+    'select[id*="Company"] option',
+    'select[name*="Company"] option',
+    'select option[value]'
+  ];
+
+  let lastError: Error | null = null;
+  for (const url of urlsToTry) {
+    try {
+      const response = await apiClient.get(url);
+      const $ = cheerio.load(response.data);
+
+      for (const selector of selectors) {
+        const options = extractSelectOptions($, selector);
+        if (options.length > 0) {
+          return options;
+        }
+      }
+    } catch (error: any) {
+      lastError = error;
+    }
+  }
+
+  if (lastError) throw lastError;
+  return [];
+}
+
+// Bigshare checker
+async function checkBigshare(request: IPOAllotmentRequest, signal?: AbortSignal): Promise<IPOAllotmentResponse> {
+  const { ipoName } = request;
+  const mode = searchModeOf(request);
+  const url = `${BASE_URL}/Data.aspx/FetchIpodetails`;
+
+  try {
+    // Look the company ID up unless the request names it
+    let companyCode = request.companyCode || ipoName;
+
+    // Check if ipoName is already a numeric ID
+    if (!request.companyCode && !/^\d+$/.test(ipoName)) {
+      const lookup = await lookupCompanyId('bigshare', ipoName, signal);
+      if (lookup.status === 'ambiguous') {
+        return ambiguousCompanyResponse('bigshare', ipoName, lookup);
+      }
+      if (!lookup.match) {
+        // Guessing a company would report another IPO's result; an admin override can pin the code
+        return companyNotFoundResponse('bigshare', ipoName, lookup);
+      }
+      companyCode = lookup.match.code;
+    }
+
+    // NSDL accounts go in the DP ID and client ID boxes, CDSL BO IDs in the single CDSL box
+    const demat = mode === 'dpclient' ? { dpId: request.dpId || '', clientId: request.clientId || '' } : null;
+    const isNsdl = demat ? /^IN/i.test(demat.dpId) : false;
+
+    const body = {
+      Applicationno: mode === 'application' ? request.applicationNo : '',
+      Company: companyCode,
+      SelectionType: SELECTION_TYPES[mode],
+      PanNo: mode === 'pan' ? request.panNo : '',
+      txtcsdl: demat && !isNsdl ? `${demat.dpId}${demat.clientId}` : '',
+      txtDPID: demat && isNsdl ? demat.dpId : '',
+      txtClId: demat && isNsdl ? demat.clientId : '',
+      ddlType: '0',
+      lang: 'en'
+    };
+
+    const response: AxiosResponse = await apiClient.post(url, body, {
+      signal,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    const parsed = decodeJsonBody(response.data);
+
+    return {
+      success: true,
+      registrar: 'bigshare',
+      ...parseBigshareResponse(parsed),
+      raw: parsed, // Keep raw data for debugging if needed
+      details: companyCode !== ipoName ? `Used company ID: ${companyCode}` : undefined
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar: 'bigshare',
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+registerRegistrar({
+  key: 'bigshare',
+  name: 'Bigshare Services',
+  website: BASE_URL,
+  capabilities: {
+    searchModes: ['pan', 'application', 'dpclient'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'json'
+  },
+  metadataPattern: /big\s*share/i,
+  listCompanies: listBigshareCompanies,
+  check: checkBigshare,
+  parse: parseBigshareResponse,
+  probe: (signal) => probeRegistrarUrl(`${BASE_URL}/`, signal, [htmlMarker('select#ddlCompany')])
+});
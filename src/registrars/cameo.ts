@@ -0,0 +1,227 @@
+import * as cheerio from 'cheerio';
+import {
+  CaptchaSessionState,
+  CompanyOption,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse
+} from '../types/ipoAllotment';
+import { registrarApiClient as apiClient, probeRegistrarUrl } from '../services/registrarClient';
+import { htmlMarker } from '../services/healthMarkers';
+import {
+  FormPage,
+  FormSession,
+  PreparedSubmission,
+  findForm,
+  prepareSubmission
+} from '../services/formSession';
+import { captchaChallengeResponse, fetchCaptchaImage } from '../services/captchaSessions';
+import { RegistrarDirectory, extractSelectOptions } from '../services/registrarDirectory';
+import { matchCompany } from '../services/companyMatcher';
+import { ambiguousCompanyResponse } from '../services/companyLookup';
+import { isTransientFailure, isUpstreamUnavailable } from '../services/circuitBreaker';
+import { parseCameoResponse } from '../parsers';
+import { registerRegistrar } from './registry';
+
+// Cameo serves the same form from several mirrors
+const ENDPOINTS = [
+  'https://ipostatus1.cameoindia.com/',
+  'https://ipostatus2.cameoindia.com/',
+  'https://ipostatus3.cameoindia.com/'
+];
+
+// Cameo lists companies in the drpCompany dropdown; any of its mirrors will do
+async function listCameoCompanies(): Promise<CompanyOption[]> {
+  let lastError: Error | null = null;
+  for (const endpoint of ENDPOINTS) {
+    try {
+      const response = await apiClient.get(endpoint, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        }
+      });
+      const options = extractSelectOptions(cheerio.load(response.data), 'select[name="drpCompany"] option');
+      if (options.length > 0) {
+        return options;
+      }
+    } catch (error: any) {
+      lastError = error;
+    }
+  }
+
+  if (lastError) throw lastError;
+  return [];
+}
+
+// Cameo's filled-in form, saved while the user solves the captcha
+interface CameoFormState {
+  submission: PreparedSubmission;
+  cookies: string;
+  companyCode: string;
+}
+
+// Cameo checker. Cameo's form is captcha-protected, so the check stops at the captcha:
+// the response carries the captcha image and a token, and submitCameoCaptcha finishes it.
+async function checkCameo(request: IPOAllotmentRequest, signal?: AbortSignal): Promise<IPOAllotmentResponse> {
+  const { panNo = '', ipoName } = request;
+  const errors: Error[] = [];
+
+  // Try multiple Cameo endpoints
+  for (const endpoint of ENDPOINTS) {
+    try {
+      console.log(`Trying Cameo endpoint: ${endpoint}`);
+
+      const session = new FormSession({ signal });
+      const page = await session.load(endpoint);
+      const form = findForm(page.$, 'select[name="drpCompany"]');
+
+      if (!form || page.$('input[name="__VIEWSTATE"]').length === 0) {
+        console.log(`No allotment form found on ${endpoint}, trying next endpoint`);
+        continue;
+      }
+
+      // Get available companies from the dropdown, keeping the registrar directory up to date
+      const companyOptions = extractSelectOptions(page.$, 'select[name="drpCompany"] option');
+      RegistrarDirectory.recordCompanies('cameo', companyOptions);
+
+      let companyCode = request.companyCode;
+      if (!companyCode) {
+        const lookup = matchCompany(ipoName, companyOptions);
+        if (lookup.status === 'ambiguous') {
+          return ambiguousCompanyResponse('cameo', ipoName, lookup);
+        }
+        if (!lookup.match) {
+          return {
+            success: false,
+            registrar: 'cameo',
+            raw: null,
+            status: 'error',
+            error: `No company found for IPO name: ${ipoName}`
+          };
+        }
+        companyCode = lookup.match.code;
+      }
+
+      // The Submit button posts back through the OrdersPanel update panel
+      const submission = prepareSubmission(page, form, {
+        drpCompany: companyCode,
+        ddlUserTypes: 'PAN NO',
+        txtfolio: panNo,
+        __EVENTTARGET: '',
+        __EVENTARGUMENT: ''
+      }, {
+        submitter: 'btngenerate',
+        updatePanel: { scriptManager: 'ScriptManager1', panel: 'OrdersPanel' }
+      });
+
+      const captchaSrc = page.$('img[src*="captcha" i], img[id*="captcha" i]').first().attr('src');
+      if (!captchaSrc) {
+        // This mirror's form has no captcha; submit it straight away
+        return cameoResult(companyCode, await session.send(submission));
+      }
+
+      const image = await fetchCaptchaImage(session, new URL(captchaSrc, page.url).toString(), page.url);
+      const state: CameoFormState = { submission, cookies: session.cookieHeader, companyCode };
+      return captchaChallengeResponse('cameo', request, image, state);
+
+    } catch (error: any) {
+      console.log(`Error with endpoint ${endpoint}:`, error.message);
+      errors.push(error);
+      continue; // Try next endpoint
+    }
+  }
+
+  // Every mirror's circuit breaker refused the request: Cameo is down rather than failing the check
+  if (errors.length === ENDPOINTS.length && errors.every(isUpstreamUnavailable)) {
+    return {
+      success: false,
+      registrar: 'cameo',
+      raw: null,
+      status: 'upstream_unavailable',
+      error: errors.map((error) => error.message).join('; ')
+    };
+  }
+
+  // If all endpoints failed
+  return {
+    success: false,
+    registrar: 'cameo',
+    raw: null,
+    status: 'error',
+    error: 'All Cameo endpoints are unavailable',
+    transient: errors.some(isTransientFailure)
+  };
+}
+
+// Wrap a parsed postback into a response
+function cameoResult(companyCode: string, { html: responseHtml }: FormPage): IPOAllotmentResponse {
+  const parsed = parseCameoResponse(responseHtml);
+  if (parsed.status === 'captcha_required') {
+    return {
+      success: false,
+      registrar: 'cameo',
+      raw: null,
+      status: 'captcha_required',
+      error: 'Cameo rejected the captcha'
+    };
+  }
+
+  return {
+    success: true,
+    registrar: 'cameo',
+    ...parsed,
+    raw: responseHtml,
+    details: `Used company code: ${companyCode}`
+  };
+}
+
+// Finish a Cameo check with the user's captcha answer
+async function submitCameoCaptcha(
+  request: IPOAllotmentRequest,
+  state: CaptchaSessionState,
+  answer: string,
+  signal?: AbortSignal
+): Promise<IPOAllotmentResponse> {
+  try {
+    const { submission, cookies, companyCode } = state as CameoFormState;
+    const session = new FormSession({ signal, cookies });
+    const result = cameoResult(companyCode, await session.send(submission, { txt_phy_captcha: answer }));
+
+    // A wrong answer invalidates the form; hand out a fresh captcha
+    if (result.status === 'captcha_required') {
+      const retry = await checkCameo(request, signal);
+      return { ...retry, error: 'The captcha answer was not accepted. Solve the new captcha to continue.' };
+    }
+    return result;
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar: 'cameo',
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+registerRegistrar({
+  key: 'cameo',
+  name: 'Cameo Corporate Services',
+  website: 'https://ipo.cameoindia.com',
+  capabilities: {
+    searchModes: ['pan'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: true,
+    responseType: 'html'
+  },
+  metadataPattern: /cameo/i,
+  listCompanies: listCameoCompanies,
+  check: checkCameo,
+  parse: parseCameoResponse,
+  probe: (signal) => probeRegistrarUrl(ENDPOINTS[0], signal, [
+    htmlMarker('select[name="drpCompany"]'),
+    htmlMarker('input[name="__VIEWSTATE"]')
+  ]),
+  submitCaptcha: submitCameoCaptcha
+});
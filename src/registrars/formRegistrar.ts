@@ -0,0 +1,212 @@
+import * as cheerio from 'cheerio';
+import {
+  CaptchaSessionState,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse,
+  RegistrarSearchMode,
+  RegistrarType
+} from '../types/ipoAllotment';
+import { FormPage, FormSession, PreparedSubmission, prepareSubmission } from '../services/formSession';
+import { isTransientFailure } from '../services/circuitBreaker';
+import { captchaChallengeResponse, fetchCaptchaImage } from '../services/captchaSessions';
+import { resolveCompanyCode } from '../services/companyLookup';
+import { SEARCH_MODE_LABELS, searchModeOf, searchValueOf } from '../services/allotmentSearch';
+import { parseFormResultPage } from '../parsers';
+
+// How a form's controls for each supported search mode are recognised: the dropdown option or
+// radio button that selects the mode, and the text box that takes the identifier
+const MODE_CONTROLS: Partial<Record<RegistrarSearchMode, { option: RegExp; input: RegExp }>> = {
+  pan: { option: /\bpan\b/i, input: /pan/i },
+  application: { option: /\bappl?\b|application/i, input: /app/i }
+};
+
+// Values to fill into a registrar's allotment form on top of what it serves: the company
+// dropdown set to the company code, search-type controls switched to the search mode and the
+// identifier box filled. Returns null when the form has no box for the identifier.
+function fillAllotmentForm(
+  $: cheerio.CheerioAPI,
+  form: ReturnType<cheerio.CheerioAPI>,
+  companyCode: string,
+  controls: { option: RegExp; input: RegExp },
+  searchValue: string
+): Record<string, string> | null {
+  const values: Record<string, string> = {};
+  let filled = false;
+
+  form.find('input, select').each((_, element) => {
+    const $el = $(element);
+    const name = $el.attr('name');
+    if (!name) return;
+
+    if ($el.is('select')) {
+      const options = $el.find('option');
+      const companyOption = options.filter((_, option) => $(option).attr('value') === companyCode);
+      const modeOption = options.filter((_, option) => controls.option.test(`${$(option).attr('value')} ${$(option).text()}`));
+
+      if (companyOption.length > 0 && /company|issue|ipo|ddl|drp/i.test(name)) {
+        values[name] = companyCode;
+      } else if (modeOption.length > 0) {
+        values[name] = modeOption.first().attr('value') || '';
+      }
+      return;
+    }
+
+    const type = ($el.attr('type') || 'text').toLowerCase();
+    const label = `${name} ${$el.attr('id') || ''} ${$el.attr('placeholder') || ''}`;
+
+    if (type === 'radio' && controls.option.test(`${$el.attr('value')} ${$el.attr('id') || ''}`)) {
+      values[name] = $el.attr('value') || '';
+    } else if (type === 'text' && controls.input.test(label)) {
+      values[name] = searchValue;
+      filled = true;
+    }
+  });
+
+  return filled ? values : null;
+}
+
+// A filled-in form, saved while the user solves its captcha
+interface FormCaptchaState {
+  submission: PreparedSubmission;
+  cookies: string;
+  captchaField: string;
+  companyCode: string;
+}
+
+// Wrap a result page into a response
+function formResult(registrar: RegistrarType, companyCode: string, { html }: FormPage): IPOAllotmentResponse {
+  return {
+    success: true,
+    registrar,
+    raw: html,
+    ...parseFormResultPage(html),
+    details: `Used company code: ${companyCode}`
+  };
+}
+
+// Check for registrars whose allotment page is a plain HTML form (MAS, Beetal):
+// fetch the form, submit it with the company and the search identifier, then parse the result table
+export async function checkFormRegistrar(
+  registrar: RegistrarType,
+  registrarName: string,
+  pageUrl: string,
+  request: IPOAllotmentRequest,
+  signal?: AbortSignal
+): Promise<IPOAllotmentResponse> {
+  const mode = searchModeOf(request);
+  const controls = MODE_CONTROLS[mode];
+  if (!controls) {
+    return {
+      success: false,
+      registrar,
+      raw: null,
+      status: 'unsupported',
+      error: `${registrarName} forms can't be searched by ${SEARCH_MODE_LABELS[mode]}`
+    };
+  }
+
+  try {
+    const company = await resolveCompanyCode(registrar, request, signal);
+    if ('response' in company) {
+      return company.response;
+    }
+    const { companyCode } = company;
+
+    const session = new FormSession({ signal });
+    const page = await session.load(pageUrl);
+    const { $ } = page;
+    const searchInput = $('input[type="text"], input:not([type])')
+      .filter((_, element) => controls.input.test(`${$(element).attr('name') || ''} ${$(element).attr('id') || ''}`))
+      .first();
+    const form = searchInput.length > 0 ? searchInput.closest('form') : $('form').first();
+
+    if (form.length === 0) {
+      return {
+        success: false,
+        registrar,
+        raw: null,
+        status: 'error',
+        error: `Could not find the allotment form on ${pageUrl}`
+      };
+    }
+
+    const values = fillAllotmentForm($, form, companyCode, controls, searchValueOf(request));
+    if (!values) {
+      return {
+        success: false,
+        registrar,
+        raw: null,
+        status: 'unsupported',
+        error: `${registrarName}'s allotment form has no ${SEARCH_MODE_LABELS[mode]} field`
+      };
+    }
+    const submission = prepareSubmission(page, form, values);
+
+    const captchaInput = form.find('input[name*="captcha" i]').first();
+    const captchaImage = form.find('img[src*="captcha" i], img[id*="captcha" i]').first();
+    if (captchaInput.length === 0 && captchaImage.length === 0) {
+      return formResult(registrar, companyCode, await session.send(submission));
+    }
+
+    // Hand the captcha to the user rather than submitting a form that will be rejected
+    if (captchaInput.length === 0 || captchaImage.length === 0) {
+      return {
+        success: false,
+        registrar,
+        raw: null,
+        status: 'captcha_required',
+        error: `${registrarName} requires a captcha that could not be read from its form`
+      };
+    }
+
+    const image = await fetchCaptchaImage(session, new URL(captchaImage.attr('src') || '', page.url).toString(), page.url);
+    const state: FormCaptchaState = {
+      submission,
+      cookies: session.cookieHeader,
+      captchaField: captchaInput.attr('name')!,
+      companyCode
+    };
+    return captchaChallengeResponse(registrar, request, image, state);
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar,
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+// Finish a form check with the user's captcha answer. A wrong answer gets a fresh captcha.
+export async function submitFormCaptcha(
+  registrar: RegistrarType,
+  registrarName: string,
+  pageUrl: string,
+  request: IPOAllotmentRequest,
+  state: CaptchaSessionState,
+  answer: string,
+  signal?: AbortSignal
+): Promise<IPOAllotmentResponse> {
+  try {
+    const { submission, cookies, captchaField, companyCode } = state as FormCaptchaState;
+    const session = new FormSession({ signal, cookies });
+    const result = formResult(registrar, companyCode, await session.send(submission, { [captchaField]: answer }));
+    if (result.status !== 'captcha_required') {
+      return result;
+    }
+
+    const retry = await checkFormRegistrar(registrar, registrarName, pageUrl, request, signal);
+    return { ...retry, error: 'The captcha answer was not accepted. Solve the new captcha to continue.' };
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar,
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
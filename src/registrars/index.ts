@@ -0,0 +1,22 @@
+// Registrar adapters. Each module registers itself with the registry when loaded, so adding a
+// registrar means adding its module and importing it here. The list is static (rather than a
+// directory scan) so serverless bundlers can trace every adapter.
+import './bigshare';
+import './kfintech';
+import './mufg';
+import './linkintime';
+import './skyline';
+import './cameo';
+import './mas';
+import './maashitla';
+import './beetal';
+import './purva';
+
+export {
+  getRegistrar,
+  hasRegistrar,
+  listRegistrarKeys,
+  listRegistrars,
+  registerRegistrar,
+  summarizeRegistrar
+} from './registry';
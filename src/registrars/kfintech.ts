@@ -0,0 +1,80 @@
+import { IPOAllotmentRequest, IPOAllotmentResponse } from '../types/ipoAllotment';
+import { registrarApiClient as apiClient, probeRegistrarUrl } from '../services/registrarClient';
+import { isTransientFailure } from '../services/circuitBreaker';
+import { maskPan } from '../services/privacy';
+import { parseKfintechResponse } from '../parsers';
+import { registerRegistrar } from './registry';
+
+// KFintech checker - Updated for new API endpoint
+async function checkKfintech({ panNo = '', ipoName }: IPOAllotmentRequest, signal?: AbortSignal): Promise<IPOAllotmentResponse> {
+  try {
+    console.log(`Checking KFintech IPO allotment for PAN: ${maskPan(panNo)}, IPO: ${ipoName}`);
+
+    // KFintech API endpoint discovered from browser network analysis
+    const apiUrl = 'https://0uz601ms56.execute-api.ap-south-1.amazonaws.com/prod/api/query';
+
+    const response = await apiClient.get(apiUrl, {
+      signal,
+      params: {
+        type: 'pan'
+      },
+      headers: {
+        'Accept': 'application/json, text/plain, */*',
+        'Origin': 'https://ipostatus.kfintech.com',
+        'Referer': 'https://ipostatus.kfintech.com/',
+        'client_id': '06917228970',
+        'reqparam': panNo,
+        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
+      }
+    });
+
+    console.log('KFintech API Response:', response.status);
+
+    return {
+      success: true,
+      registrar: 'kfintech',
+      raw: response.data,
+      ...parseKfintechResponse(response.data)
+    };
+
+  } catch (error: any) {
+    console.error('KFintech API Error:', error.message);
+
+    // Handle specific error cases
+    if (error.response?.status === 404) {
+      return {
+        success: true,
+        registrar: 'kfintech',
+        raw: error.response.data,
+        status: 'no_record',
+        details: 'No IPO allotment record found for the provided PAN number.'
+      };
+    }
+
+    return {
+      success: false,
+      registrar: 'kfintech',
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+registerRegistrar({
+  key: 'kfintech',
+  name: 'KFintech',
+  website: 'https://ipostatus.kfintech.com',
+  capabilities: {
+    searchModes: ['pan'],
+    companyDirectory: false,
+    requiresCompanyCode: false,
+    captcha: false,
+    responseType: 'json'
+  },
+  metadataPattern: /kfin|karvy/i,
+  check: checkKfintech,
+  parse: parseKfintechResponse,
+  probe: (signal) => probeRegistrarUrl('https://ipostatus.kfintech.com/', signal)
+});
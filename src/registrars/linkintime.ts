@@ -0,0 +1,22 @@
+import { probeRegistrarUrl } from '../services/registrarClient';
+import { parseMufgResponse } from '../parsers';
+import { BASE_URL, checkMufgRegistrar } from './mufg';
+import { registerRegistrar } from './registry';
+
+// Link Intime is now MUFG Intime India Private Limited; the key stays for existing clients
+registerRegistrar({
+  key: 'linkintime',
+  name: 'Link Intime (now MUFG Intime India Private Limited)',
+  website: BASE_URL,
+  capabilities: {
+    searchModes: ['pan', 'application', 'dpclient'],
+    companyDirectory: false, // Uses MUFG's company list
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'json'
+  },
+  companyDirectoryOf: 'mufg',
+  check: (request, signal) => checkMufgRegistrar('linkintime', request, signal),
+  parse: parseMufgResponse,
+  probe: (signal) => probeRegistrarUrl(`${BASE_URL}/Initial_Offer/IPO.aspx`, signal)
+});
@@ -0,0 +1,68 @@
+import { IPOAllotmentRequest, IPOAllotmentResponse } from '../types/ipoAllotment';
+import { registrarApiClient as apiClient, probeRegistrarUrl } from '../services/registrarClient';
+import { isTransientFailure } from '../services/circuitBreaker';
+import { htmlMarker } from '../services/healthMarkers';
+import { collectCompaniesFromPage } from '../services/registrarDirectory';
+import { resolveCompanyCode } from '../services/companyLookup';
+import { parseMaashitlaResponse } from '../parsers';
+import { registerRegistrar } from './registry';
+
+const BASE_URL = 'https://maashitla.com';
+const PUBLIC_ISSUES_URL = `${BASE_URL}/allotment-status/public-issues`;
+
+// Maashitla checker - the public issues page queries a JSON search endpoint by company and PAN
+async function checkMaashitla(request: IPOAllotmentRequest, signal?: AbortSignal): Promise<IPOAllotmentResponse> {
+  const { panNo = '' } = request;
+  try {
+    const company = await resolveCompanyCode('maashitla', request, signal);
+    if ('response' in company) {
+      return company.response;
+    }
+    const { companyCode } = company;
+
+    const response = await apiClient.get(`${BASE_URL}/PublicIssues/Search`, {
+      signal,
+      params: { company: companyCode, search: panNo },
+      headers: {
+        'Accept': 'application/json, text/javascript, */*; q=0.01',
+        'Referer': PUBLIC_ISSUES_URL,
+        'X-Requested-With': 'XMLHttpRequest'
+      }
+    });
+
+    return {
+      success: true,
+      registrar: 'maashitla',
+      raw: response.data,
+      ...parseMaashitlaResponse(response.data),
+      details: `Used company code: ${companyCode}`
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar: 'maashitla',
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+registerRegistrar({
+  key: 'maashitla',
+  name: 'Maashitla Securities',
+  website: BASE_URL,
+  capabilities: {
+    searchModes: ['pan'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'json'
+  },
+  metadataPattern: /maashitla/i,
+  listCompanies: () => collectCompaniesFromPage(PUBLIC_ISSUES_URL),
+  check: checkMaashitla,
+  parse: parseMaashitlaResponse,
+  probe: (signal) => probeRegistrarUrl(PUBLIC_ISSUES_URL, signal, [htmlMarker('select option[value]')])
+});
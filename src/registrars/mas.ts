@@ -0,0 +1,29 @@
+import { probeRegistrarUrl } from '../services/registrarClient';
+import { htmlMarker } from '../services/healthMarkers';
+import { collectCompaniesFromPage } from '../services/registrarDirectory';
+import { parseFormResultPage } from '../parsers';
+import { checkFormRegistrar, submitFormCaptcha } from './formRegistrar';
+import { registerRegistrar } from './registry';
+
+// MAS answers allotment queries through an ASP.NET form
+const FORM_URL = 'https://www.masserv.com/opt.asp';
+
+registerRegistrar({
+  key: 'mas',
+  name: 'MAS Services',
+  website: 'https://www.masserv.com',
+  capabilities: {
+    searchModes: ['pan', 'application'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'html'
+  },
+  metadataPattern: /\bmas\s+serv/i,
+  listCompanies: () => collectCompaniesFromPage(FORM_URL),
+  check: (request, signal) => checkFormRegistrar('mas', 'MAS Services', FORM_URL, request, signal),
+  parse: parseFormResultPage,
+  probe: (signal) => probeRegistrarUrl(FORM_URL, signal, [htmlMarker('form select')]),
+  submitCaptcha: (request, state, answer, signal) =>
+    submitFormCaptcha('mas', 'MAS Services', FORM_URL, request, state, answer, signal)
+});
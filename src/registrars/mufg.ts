@@ -0,0 +1,147 @@
+import * as cheerio from 'cheerio';
+import {
+  CompanyOption,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse,
+  RegistrarSearchMode,
+  RegistrarType
+} from '../types/ipoAllotment';
+import { registrarApiClient as apiClient, probeRegistrarUrl } from '../services/registrarClient';
+import { isTransientFailure } from '../services/circuitBreaker';
+import { resolveCompanyCode } from '../services/companyLookup';
+import { decodeJsonBody } from '../services/allotmentResult';
+import { searchModeOf, searchValueOf } from '../services/allotmentSearch';
+import { parseMufgResponse } from '../parsers';
+import { registerRegistrar } from './registry';
+
+export const BASE_URL = 'https://in.mpms.mufg.com';
+
+// SearchOnPan CHKVAL for each search mode; the identifier always goes in the PAN field
+const SEARCH_TYPES: Record<RegistrarSearchMode, string> = {
+  pan: '1',
+  application: '2',
+  dpclient: '3'
+};
+
+// MUFG returns its company list as XML tables from the GetDetails web method
+async function listMufgCompanies(): Promise<CompanyOption[]> {
+  const response = await apiClient.post(`${BASE_URL}/Initial_Offer/IPO.aspx/GetDetails`, {}, {
+    idempotent: true, // A web method that only reads the company list
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+    }
+  });
+
+  if (!response.data || !response.data.d) {
+    return [];
+  }
+
+  // Decode HTML entities in the XML response, handling both escaped and unescaped forms
+  let xmlData: string = response.data.d;
+  xmlData = xmlData.replace(/\\u003c/g, '<').replace(/\\u003e/g, '>');
+  xmlData = xmlData.replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+  xmlData = xmlData.replace(/&amp;/g, '&');
+
+  const $ = cheerio.load(xmlData, { xmlMode: true });
+  const options: CompanyOption[] = [];
+
+  $('Table').each((_, element) => {
+    const name = $(element).find('companyname').text().trim();
+    const code = $(element).find('company_id').text().trim();
+    if (name && code) {
+      options.push({ code, name });
+    }
+  });
+
+  return options;
+}
+
+// MUFG check, shared with Link Intime (now MUFG Intime India Private Limited).
+// Company IDs always come from MUFG's company list.
+export async function checkMufgRegistrar(
+  registrar: RegistrarType,
+  request: IPOAllotmentRequest,
+  signal?: AbortSignal
+): Promise<IPOAllotmentResponse> {
+  const { ipoName } = request;
+  try {
+    const company = await resolveCompanyCode(registrar, request, signal, 'mufg');
+    if ('response' in company) {
+      return company.response;
+    }
+    const companyId = company.companyCode;
+
+    // Generate token (simplified version)
+    const tokenUrl = `${BASE_URL}/Initial_Offer/IPO.aspx/generateToken`;
+    let token = '';
+
+    try {
+      const tokenResponse = await apiClient.post(tokenUrl, {}, {
+        signal,
+        headers: { 'Content-Type': 'application/json; charset=utf-8' }
+      });
+      token = tokenResponse.data.d || '';
+    } catch (error) {
+      console.log('Could not generate token, proceeding without it');
+    }
+
+    // Search for allotment status
+    const searchUrl = `${BASE_URL}/Initial_Offer/IPO.aspx/SearchOnPan`;
+    const searchBody = {
+      clientid: companyId,
+      PAN: searchValueOf(request),
+      IFSC: '',
+      CHKVAL: SEARCH_TYPES[searchModeOf(request)],
+      token: token
+    };
+
+    const response = await apiClient.post(searchUrl, JSON.stringify(searchBody), {
+      signal,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+      }
+    });
+
+    const parsed = decodeJsonBody(response.data);
+
+    return {
+      success: true,
+      registrar,
+      ...parseMufgResponse(parsed),
+      raw: parsed,
+      details: registrar === 'mufg'
+        ? (companyId !== ipoName ? `Used company ID: ${companyId}` : undefined)
+        : (companyId !== ipoName ? `Used company ID: ${companyId} (via MUFG system)` : 'Using MUFG system')
+    };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar,
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+registerRegistrar({
+  key: 'mufg',
+  name: 'MUFG Intime India Private Limited',
+  website: BASE_URL,
+  capabilities: {
+    searchModes: ['pan', 'application', 'dpclient'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'json'
+  },
+  metadataPattern: /mufg|link\s*intime/i, // Link Intime is now MUFG Intime, so both resolve here
+  listCompanies: listMufgCompanies,
+  check: (request, signal) => checkMufgRegistrar('mufg', request, signal),
+  parse: parseMufgResponse,
+  probe: (signal) => probeRegistrarUrl(`${BASE_URL}/Initial_Offer/IPO.aspx`, signal)
+});
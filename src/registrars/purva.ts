@@ -0,0 +1,105 @@
+import * as cheerio from 'cheerio';
+import { CompanyOption, IPOAllotmentRequest, IPOAllotmentResponse } from '../types/ipoAllotment';
+import { registrarApiClient as apiClient, probeRegistrarUrl } from '../services/registrarClient';
+import { isTransientFailure } from '../services/circuitBreaker';
+import { htmlMarker } from '../services/healthMarkers';
+import { FormSession, findForm } from '../services/formSession';
+import { extractSelectOptions } from '../services/registrarDirectory';
+import { ambiguousCompanyResponse, companyNotFoundResponse, lookupCompanyId } from '../services/companyLookup';
+import { searchModeOf } from '../services/allotmentSearch';
+import { parsePurvaResponse } from '../parsers';
+import { registerRegistrar } from './registry';
+
+const QUERY_URL = 'https://www.purvashare.com/investor-service/ipo-query';
+
+// Purva lists companies in the company_id dropdown of its IPO query form
+async function listPurvaCompanies(): Promise<CompanyOption[]> {
+  const response = await apiClient.get(QUERY_URL, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+    }
+  });
+
+  return extractSelectOptions(cheerio.load(response.data), 'select[name="company_id"] option');
+}
+
+// Purva checker
+async function checkPurva(request: IPOAllotmentRequest, signal?: AbortSignal): Promise<IPOAllotmentResponse> {
+  const { ipoName } = request;
+  const byApplication = searchModeOf(request) === 'application';
+
+  try {
+    // First, get the page to pick up the CSRF token and session cookie
+    const session = new FormSession({ signal });
+    const page = await session.load(QUERY_URL);
+    const form = findForm(page.$, 'input[name="csrfmiddlewaretoken"]');
+
+    if (!form || form.find('input[name="csrfmiddlewaretoken"]').length === 0) {
+      return {
+        success: false,
+        registrar: 'purva',
+        raw: null,
+        status: 'error',
+        error: 'Could not extract CSRF token from Purva website'
+      };
+    }
+
+    // Determine company_id - if ipoName is numeric, use it directly, otherwise try to find it
+    let companyId = request.companyCode || ipoName;
+    if (!request.companyCode && !/^\d+$/.test(ipoName)) {
+      // Try to get company ID using the lookup function
+      const lookup = await lookupCompanyId('purva', ipoName, signal);
+      if (lookup.status === 'ambiguous') {
+        return ambiguousCompanyResponse('purva', ipoName, lookup);
+      }
+      if (!lookup.match) {
+        // Guessing a company would report another IPO's result; an admin override can pin the code
+        return companyNotFoundResponse('purva', ipoName, lookup);
+      }
+      companyId = lookup.match.code;
+    }
+
+    // The form takes either an application number or a PAN, leaving the other empty
+    const result = await session.submit(page, form, {
+      company_id: companyId,
+      applicationNumber: byApplication ? request.applicationNo || '' : '',
+      panNumber: byApplication ? '' : request.panNo || '',
+      submit: 'Search'
+    });
+
+    return {
+      success: true,
+      registrar: 'purva',
+      raw: result.html,
+      ...parsePurvaResponse(result.html)
+    };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar: 'purva',
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+registerRegistrar({
+  key: 'purva',
+  name: 'Purva Sharegistry',
+  website: 'https://www.purvashare.com',
+  capabilities: {
+    searchModes: ['pan', 'application'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'html'
+  },
+  metadataPattern: /purva/i,
+  listCompanies: listPurvaCompanies,
+  check: checkPurva,
+  parse: parsePurvaResponse,
+  probe: (signal) => probeRegistrarUrl(QUERY_URL, signal, [htmlMarker('input[name="csrfmiddlewaretoken"]')])
+});
@@ -0,0 +1,38 @@
+import { RegistrarAdapter, RegistrarSummary, RegistrarType } from '../types/ipoAllotment';
+
+// Registered adapters, in registration order (the order registrars are checked and listed in)
+const adapters = new Map<RegistrarType, RegistrarAdapter>();
+
+// Add a registrar. Adapter modules call this when they are loaded.
+export function registerRegistrar(adapter: RegistrarAdapter): void {
+  if (adapters.has(adapter.key)) {
+    throw new Error(`Registrar already registered: ${adapter.key}`);
+  }
+  adapters.set(adapter.key, adapter);
+}
+
+export function getRegistrar(key: RegistrarType): RegistrarAdapter | undefined {
+  return adapters.get(key);
+}
+
+export function hasRegistrar(key: string): boolean {
+  return adapters.has(key);
+}
+
+export function listRegistrars(): RegistrarAdapter[] {
+  return Array.from(adapters.values());
+}
+
+export function listRegistrarKeys(): RegistrarType[] {
+  return Array.from(adapters.keys());
+}
+
+// Describe a registrar by what it supports rather than how it is reached
+export function summarizeRegistrar(adapter: RegistrarAdapter): RegistrarSummary {
+  return {
+    name: adapter.key,
+    displayName: adapter.name,
+    website: adapter.website,
+    capabilities: adapter.capabilities
+  };
+}
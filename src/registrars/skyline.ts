@@ -0,0 +1,127 @@
+import * as cheerio from 'cheerio';
+import { CompanyOption, IPOAllotmentRequest, IPOAllotmentResponse } from '../types/ipoAllotment';
+import { registrarApiClient as apiClient, probeRegistrarUrl } from '../services/registrarClient';
+import { isTransientFailure } from '../services/circuitBreaker';
+import { htmlMarker } from '../services/healthMarkers';
+import { FormSession, findForm } from '../services/formSession';
+import { extractSelectOptions } from '../services/registrarDirectory';
+import { ambiguousCompanyResponse, lookupCompanyId } from '../services/companyLookup';
+import { maskPan } from '../services/privacy';
+import { parseSkylineApplicationPage, parseSkylineResponse } from '../parsers';
+import { registerRegistrar } from './registry';
+
+// Skyline lists companies in the dropdown on its IPO page
+async function listSkylineCompanies(): Promise<CompanyOption[]> {
+  const response = await apiClient.get('https://www.skylinerta.com/ipo.php', {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+    }
+  });
+
+  return extractSelectOptions(cheerio.load(response.data), 'select option');
+}
+
+// Skyline checker
+async function checkSkyline({ panNo = '', ipoName, companyCode }: IPOAllotmentRequest, signal?: AbortSignal): Promise<IPOAllotmentResponse> {
+  try {
+    console.log(`Checking Skyline IPO allotment for PAN: ${maskPan(panNo)}, IPO: ${ipoName}`);
+
+    // Get company ID using the lookup function, unless it was resolved already
+    let companyId = companyCode || null;
+    if (!companyId) {
+      const lookup = await lookupCompanyId('skyline', ipoName, signal);
+      if (lookup.status === 'ambiguous') {
+        return ambiguousCompanyResponse('skyline', ipoName, lookup);
+      }
+      companyId = lookup.match ? lookup.match.code : null;
+    }
+
+    // If no company ID found and ipoName looks like a company name, try direct search
+    if (!companyId) {
+      return {
+        success: false,
+        registrar: 'skyline',
+        raw: null,
+        status: 'error',
+        error: `No company found for IPO name: ${ipoName}. Available companies can be found on https://www.skylinerta.com/ipo.php`
+      };
+    }
+
+    // Based on the website analysis, Skyline redirects to display_application.php with the company parameter
+    const searchUrl = `https://www.skylinerta.com/display_application.php?app=${companyId}`;
+
+    console.log(`Fetching Skyline application page: ${searchUrl}`);
+
+    const session = new FormSession({ signal });
+    const page = await session.load(searchUrl, { referer: 'https://www.skylinerta.com/ipo.php' });
+    const { $ } = page;
+    const html = page.html;
+
+    // Look for forms or input fields where PAN can be entered
+    const panInputSelector = 'input[type="text"], input[name*="pan"], input[id*="pan"]';
+    const panInputs = $(panInputSelector);
+    const form = panInputs.length > 0 ? findForm($, panInputSelector) : null;
+
+    if (form) {
+      // The page asks for the PAN, so submit its form with every PAN box filled in
+      const values: Record<string, string> = {};
+      form.find('input[type="text"]').each((_, element) => {
+        const $el = $(element);
+        const name = $el.attr('name');
+        if (name && (name.toLowerCase().includes('pan') || $el.attr('placeholder')?.toLowerCase().includes('pan'))) {
+          values[name] = panNo;
+        }
+      });
+
+      const resultHtml = (await session.submit(page, form, values)).html;
+
+      return {
+        success: true,
+        registrar: 'skyline',
+        ...parseSkylineResponse(resultHtml),
+        raw: resultHtml,
+        details: `Used company ID: ${companyId}, submitted form with PAN: ${maskPan(panNo)}`
+      };
+    }
+
+    // If no form found or form submission not needed, parse the current page
+    return {
+      success: true,
+      registrar: 'skyline',
+      ...parseSkylineApplicationPage(html),
+      raw: html,
+      details: `Used company ID: ${companyId}. ${panInputs.length > 0 ? 'Form found but submission may have failed.' : 'No form found on page.'}`
+    };
+
+  } catch (error: any) {
+    return {
+      success: false,
+      registrar: 'skyline',
+      raw: null,
+      status: 'error',
+      error: error.message,
+      transient: isTransientFailure(error)
+    };
+  }
+}
+
+registerRegistrar({
+  key: 'skyline',
+  name: 'Skyline Financial Services',
+  website: 'https://www.skylinerta.com',
+  capabilities: {
+    searchModes: ['pan'],
+    companyDirectory: true,
+    requiresCompanyCode: true,
+    captcha: false,
+    responseType: 'html'
+  },
+  metadataPattern: /skyline/i,
+  listCompanies: listSkylineCompanies,
+  check: checkSkyline,
+  parse: parseSkylineResponse,
+  probe: (signal) => probeRegistrarUrl('https://www.skylinerta.com/ipo.php', signal, [
+    htmlMarker('select option'),
+    htmlMarker('input[type="text"]')
+  ])
+});
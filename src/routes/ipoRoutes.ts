@@ -15,6 +15,32 @@ import {
   getIpoDetailsBySymbol,
   healthCheck
 } from '../controllers/ipoController';
+import {
+  checkRegistrarAllotment,
+  checkAllRegistrarsAllotment,
+  checkResolvedRegistrarAllotment,
+  checkBulkAllotment,
+  createAllotmentWatch,
+  listAllotmentWatches,
+  getAllotmentWatch,
+  cancelAllotmentWatch,
+  getAllotmentJob,
+  getAllotmentRegistrars,
+  searchRegistrarCompanies,
+  submitCaptchaAnswer
+} from '../controllers/allotmentController';
+import {
+  requireAdmin,
+  listCacheNamespaces,
+  getCacheNamespace,
+  clearCacheNamespace,
+  deleteCacheEntry,
+  refreshCompanyLookup,
+  listRegistrarOverrides,
+  createRegistrarOverride,
+  updateRegistrarOverride,
+  deleteRegistrarOverride
+} from '../controllers/adminController';
 
 const router: Router = Router();
 
@@ -39,6 +65,72 @@ router.get('/allotedipo-list', getAllotedIPOs);
 // POST /api/ipos/check-ipoallotment - Check IPO allotment status using IPONinja API
 router.post('/check-ipoallotment', checkAllotmentWithIPONinja);
 
+// GET /api/ipos/allotment/registrars - List registrars supported for direct allotment checks
+router.get('/allotment/registrars', getAllotmentRegistrars);
+
+// POST /api/ipos/allotment/all - Check IPO allotment status across all registrars
+router.post('/allotment/all', checkAllRegistrarsAllotment);
+
+// POST /api/ipos/allotment/auto - Detect the registrar from IPO metadata and check allotment status
+router.post('/allotment/auto', checkResolvedRegistrarAllotment);
+
+// POST /api/ipos/allotment/bulk - Check several PANs (e.g. a family's) for one IPO with its registrar
+router.post('/allotment/bulk', checkBulkAllotment);
+
+// POST /api/ipos/allotment/captcha - Finish an allotment check that stopped at a registrar captcha
+router.post('/allotment/captcha', submitCaptchaAnswer);
+
+// POST /api/ipos/allotment/:registrar - Check IPO allotment status directly with a registrar
+router.post('/allotment/:registrar', checkRegistrarAllotment);
+
+// GET /api/ipos/jobs/:id - Get a background allotment job's progress and results
+router.get('/jobs/:id', getAllotmentJob);
+
+// POST /api/ipos/watches - Watch a PAN and IPO until the registrar publishes the result
+router.post('/watches', createAllotmentWatch);
+
+// GET /api/ipos/watches - List allotment watches (admin)
+router.get('/watches', requireAdmin, listAllotmentWatches);
+
+// GET /api/ipos/watches/:id - Get an allotment watch and its final result
+router.get('/watches/:id', getAllotmentWatch);
+
+// DELETE /api/ipos/watches/:id - Stop an allotment watch
+router.delete('/watches/:id', cancelAllotmentWatch);
+
+// GET /api/ipos/registrar-companies - Search companies listed by registrars for allotment checks
+router.get('/registrar-companies', searchRegistrarCompanies);
+
+// Admin routes need the admin token
+router.use('/admin', requireAdmin);
+
+// GET /api/ipos/admin/caches - List cache namespaces with their stats
+router.get('/admin/caches', listCacheNamespaces);
+
+// GET /api/ipos/admin/caches/:namespace - Show a cache namespace's entries
+router.get('/admin/caches/:namespace', getCacheNamespace);
+
+// DELETE /api/ipos/admin/caches/:namespace - Empty a cache namespace
+router.delete('/admin/caches/:namespace', clearCacheNamespace);
+
+// DELETE /api/ipos/admin/caches/:namespace/entries/:key - Delete one cache entry
+router.delete('/admin/caches/:namespace/entries/:key', deleteCacheEntry);
+
+// POST /api/ipos/admin/company-lookups/:registrar/refresh - Redo a company lookup from a fresh company list
+router.post('/admin/company-lookups/:registrar/refresh', refreshCompanyLookup);
+
+// GET /api/ipos/admin/overrides - List manual registrar overrides
+router.get('/admin/overrides', listRegistrarOverrides);
+
+// POST /api/ipos/admin/overrides - Map an IPO name, symbol or slug to a registrar and company code
+router.post('/admin/overrides', createRegistrarOverride);
+
+// PUT /api/ipos/admin/overrides/:id - Replace a registrar override
+router.put('/admin/overrides/:id', updateRegistrarOverride);
+
+// DELETE /api/ipos/admin/overrides/:id - Remove a registrar override
+router.delete('/admin/overrides/:id', deleteRegistrarOverride);
+
 // GET /api/ipos/subscription-list - Get IPO subscription list from IPO Trend
 router.get('/subscription-list', getSubscriptionList);
 
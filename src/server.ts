@@ -5,9 +5,18 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 
 import ipoRoutes from './routes/ipoRoutes';
+import { RegistrarDirectory } from './services/registrarDirectory';
+import { AllotmentWatchService } from './services/allotmentWatch';
+import { installLogRedaction } from './services/privacy';
+import { warmSnapshots } from './services/snapshots';
+import { UpstreamHealthService } from './services/upstreamHealth';
+import { countAttempts } from './services/retryPolicy';
 
 dotenv.config();
 
+// Mask PANs in every log line before anything is logged
+installLogRedaction();
+
 const app: Application = express();
 const PORT: number = parseInt(process.env.PORT || '5000', 10);
 
@@ -25,9 +34,39 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
+// Say how many upstream requests each answer took, retries included
+app.use('/api/ipos', (req: Request, res: Response, next: NextFunction) => {
+  countAttempts((attempts) => {
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      if (attempts.requests > 0) {
+        res.set('X-Upstream-Attempts', String(attempts.requests));
+        res.set('X-Upstream-Retries', String(attempts.retries));
+      }
+      return json(body);
+    };
+    next();
+  });
+});
+
 // Routes
 app.use('/api/ipos', ipoRoutes);
 
+// Restore company lookups and registrar company lists saved by earlier instances, so the first
+// checks on a cold instance don't have to scrape registrars
+warmSnapshots().catch((error) => {
+  console.error('Error warming snapshots:', error.message);
+});
+
+// Keep the registrar company directory fresh while the instance is warm
+RegistrarDirectory.startPeriodicRefresh();
+
+// Re-check allotment watches that are due while the instance is warm
+AllotmentWatchService.startScheduler();
+
+// Probe registrars and IPO data sources while the instance is warm
+UpstreamHealthService.startScheduler();
+
 // Health check endpoint
 app.get('/api/health', (req: Request, res: Response) => {
   res.status(200).json({
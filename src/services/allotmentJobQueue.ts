@@ -0,0 +1,293 @@
+import { randomUUID } from 'crypto';
+import {
+  AllotmentJob,
+  AllotmentJobInput,
+  AllotmentJobProgress,
+  AllotmentJobStore,
+  AllotmentJobTask,
+  AllotmentResultStatus,
+  BulkAllotmentOptions,
+  BulkAllotmentRequest,
+  CheckAllRegistrarsOptions,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse,
+  RegistrarType
+} from '../types/ipoAllotment';
+import { IPOAllotmentService } from './ipoAllotmentService';
+import { DEFINITIVE_STATUSES, bulkAllotmentRow, summarizeBulkRows } from './allotmentResult';
+import { searchModeOf, supportsSearchMode, unsupportedSearchResponse } from './allotmentSearch';
+import { MemoryJobStore } from './jobStore';
+import { hashPan, maskPan, maskSearchPan } from './privacy';
+import { getRegistrar, listRegistrarKeys } from '../registrars';
+
+const MAX_RUNNING_JOBS = 2; // Jobs this instance works on at once
+const MAX_TASK_ATTEMPTS = 3;
+const TASK_RETRY_DELAY = 2000; // 2 seconds, doubled after each failed attempt
+const FAILED_STATUSES: AllotmentResultStatus[] = ['error', 'timeout'];
+
+// Defaults for check-all jobs; bulk jobs use the bulk check's own
+const DEFAULT_JOB_CONCURRENCY = 4;
+const DEFAULT_JOB_CHECK_TIMEOUT = 20000; // 20 seconds per registrar
+
+let store: AllotmentJobStore = new MemoryJobStore();
+let runningWorkers = 0;
+let submissions = 0; // Bumped on every submission, so workers about to stop look once more
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function jobProgress(tasks: AllotmentJobTask[]): AllotmentJobProgress {
+  return {
+    total: tasks.length,
+    done: tasks.filter((task) => task.status !== 'pending' && task.status !== 'running').length,
+    failed: tasks.filter((task) => task.status === 'failed').length
+  };
+}
+
+async function saveJob(job: AllotmentJob): Promise<void> {
+  job.progress = jobProgress(job.tasks);
+  await store.save(job);
+}
+
+// Whether a failed check may succeed if tried again: it timed out, or the registrar couldn't be
+// reached or answered with a server error. Failures such as an unknown company would only repeat.
+function isRetryable(result: IPOAllotmentResponse): boolean {
+  return result.status === 'timeout' || Boolean(result.transient);
+}
+
+// Run a job's pending tasks a few at a time, retrying checks that failed transiently.
+// The job is saved as each task starts and finishes, so pollers see partial results.
+async function runTasks(
+  job: AllotmentJob,
+  concurrency: number,
+  check: (task: AllotmentJobTask) => Promise<IPOAllotmentResponse>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  const pending = job.tasks.filter((task) => task.status === 'pending');
+
+  let nextIndex = 0;
+  const worker = async (): Promise<void> => {
+    while (nextIndex < pending.length) {
+      const task = pending[nextIndex++];
+      if (shouldStop()) {
+        task.status = 'cancelled';
+        continue;
+      }
+
+      task.status = 'running';
+      await saveJob(job);
+
+      let result: IPOAllotmentResponse;
+      do {
+        if (task.attempts > 0) {
+          await sleep(TASK_RETRY_DELAY * 2 ** (task.attempts - 1));
+        }
+        task.attempts++;
+        result = await check(task);
+      } while (isRetryable(result) && task.attempts < MAX_TASK_ATTEMPTS);
+
+      task.result = result;
+      task.status = FAILED_STATUSES.includes(result.status) ? 'failed' : 'completed';
+      await saveJob(job);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), pending.length) }, worker));
+}
+
+// Bulk job: resolve the registrar and company once, then check each PAN
+async function runBulkJob(
+  job: AllotmentJob,
+  { request, options }: Extract<AllotmentJobInput, { kind: 'bulk' }>
+): Promise<void> {
+  const startedAt = Date.now();
+  const { applicants, ...target } = request;
+  const { options: settings, ipoName, ...plan } = await IPOAllotmentService.prepareBulk(target, options);
+  const { registrar, companyCode, failure } = plan;
+
+  if (!registrar || !ipoName || failure) {
+    job.tasks.forEach((task) => { task.status = 'cancelled'; });
+    job.status = 'failed';
+    job.error = failure?.error || 'Could not determine the registrar for this IPO from IPO metadata';
+    job.result = { ...plan, rows: [], totals: summarizeBulkRows([]), durationMs: Date.now() - startedAt };
+    return;
+  }
+
+  // Tasks are keyed by hashed PAN; the PANs themselves are only in the job's input
+  const pansByKey = new Map(applicants.map((applicant) => [hashPan(applicant.panNo), applicant.panNo]));
+  await runTasks(job, settings.concurrency, (task) => IPOAllotmentService.checkRegistrarWithin(
+    registrar,
+    { ipoName, companyCode, searchBy: 'pan', panNo: pansByKey.get(task.key) },
+    settings.checkTimeoutMs,
+    { bypassCache: settings.bypassCache }
+  ));
+
+  const rows = job.tasks.map((task) => bulkAllotmentRow({ panNo: task.panNo!, label: task.label }, task.result!));
+  job.status = 'completed';
+  job.result = { ...plan, rows, totals: summarizeBulkRows(rows), durationMs: Date.now() - startedAt };
+}
+
+// Check-all job: check each registrar that supports the search mode. There is no overall
+// deadline, since the point of a job is to outlive the request.
+async function runCheckAllJob(
+  job: AllotmentJob,
+  { request, options }: Extract<AllotmentJobInput, { kind: 'check_all' }>
+): Promise<void> {
+  const startedAt = Date.now();
+  const timeoutMs = options.registrarTimeoutMs ?? DEFAULT_JOB_CHECK_TIMEOUT;
+  let definitiveRegistrar: RegistrarType | undefined;
+
+  await runTasks(
+    job,
+    options.concurrency ?? DEFAULT_JOB_CONCURRENCY,
+    async (task) => {
+      const result = await IPOAllotmentService.checkRegistrarWithin(task.key, request, timeoutMs, {
+        bypassCache: options.bypassCache
+      });
+      if (options.stopOnFirstDefinitive && !definitiveRegistrar && DEFINITIVE_STATUSES.includes(result.status)) {
+        definitiveRegistrar = task.key;
+      }
+      return result;
+    },
+    () => definitiveRegistrar !== undefined
+  );
+
+  for (const task of job.tasks) {
+    if (task.status === 'cancelled') {
+      task.result = {
+        success: false,
+        registrar: task.key,
+        raw: null,
+        status: 'cancelled',
+        error: `Cancelled after ${definitiveRegistrar} returned a definitive result`
+      };
+    }
+  }
+
+  const keysWhere = (predicate: (task: AllotmentJobTask) => boolean) =>
+    job.tasks.filter(predicate).map((task) => task.key);
+
+  job.status = 'completed';
+  job.result = {
+    results: job.tasks.map((task) => task.result!),
+    completed: keysWhere((task) => (task.status === 'completed' || task.status === 'failed') && task.result?.status !== 'timeout'),
+    timedOut: keysWhere((task) => task.result?.status === 'timeout'),
+    cancelled: keysWhere((task) => task.status === 'cancelled'),
+    skipped: keysWhere((task) => task.status === 'skipped'),
+    definitiveRegistrar,
+    durationMs: Date.now() - startedAt
+  };
+}
+
+async function runJob(job: AllotmentJob): Promise<void> {
+  try {
+    if (job.input.kind === 'bulk') {
+      await runBulkJob(job, job.input);
+    } else {
+      await runCheckAllJob(job, job.input);
+    }
+  } catch (error: any) {
+    console.error(`Allotment job ${job.id} failed:`, error.message);
+    job.status = 'failed';
+    job.error = error.message;
+  } finally {
+    job.finishedAt = new Date().toISOString();
+    await saveJob(job);
+  }
+}
+
+// Work through queued jobs until none are left
+async function runWorker(): Promise<void> {
+  for (;;) {
+    const seen = submissions;
+    const job = await store.claimNext();
+    if (!job) {
+      // A job submitted while claiming may have found every worker busy; look again for it
+      if (seen !== submissions) continue;
+      return;
+    }
+    await runJob(job);
+  }
+}
+
+function startWorkers(): void {
+  while (runningWorkers < MAX_RUNNING_JOBS) {
+    runningWorkers++;
+    runWorker()
+      .catch((error: any) => console.error('Allotment job worker stopped:', error.message))
+      .finally(() => { runningWorkers--; });
+  }
+}
+
+// A job as reported by the API, with the PANs in its input masked
+function jobView(job: AllotmentJob): AllotmentJob {
+  const input: AllotmentJobInput = job.input.kind === 'bulk'
+    ? {
+      ...job.input,
+      request: {
+        ...job.input.request,
+        applicants: job.input.request.applicants.map((applicant) => ({ ...applicant, panNo: maskPan(applicant.panNo) }))
+      }
+    }
+    : { ...job.input, request: maskSearchPan(job.input.request) };
+  return { ...job, input };
+}
+
+async function submitJob(input: AllotmentJobInput, tasks: AllotmentJobTask[]): Promise<AllotmentJob> {
+  const job: AllotmentJob = {
+    id: randomUUID(),
+    kind: input.kind,
+    status: 'queued',
+    input,
+    tasks,
+    progress: jobProgress(tasks),
+    createdAt: new Date().toISOString()
+  };
+
+  await saveJob(job);
+  submissions++;
+  startWorkers();
+  return jobView(job);
+}
+
+// Background allotment checks for work that outlasts a request: a job is queued and its ID
+// returned at once, and workers in this instance check it task by task with retries
+export class AllotmentJobQueue {
+  // Queue a bulk check of several PANs
+  static async submitBulk(request: BulkAllotmentRequest, options: BulkAllotmentOptions = {}): Promise<AllotmentJob> {
+    const tasks = request.applicants.map((applicant): AllotmentJobTask => ({
+      key: hashPan(applicant.panNo),
+      panNo: maskPan(applicant.panNo),
+      label: applicant.label,
+      status: 'pending',
+      attempts: 0
+    }));
+    return submitJob({ kind: 'bulk', request, options }, tasks);
+  }
+
+  // Queue a check across every registrar. Registrars that can't be searched the requested way
+  // are skipped up front.
+  static async submitCheckAll(
+    request: IPOAllotmentRequest,
+    options: CheckAllRegistrarsOptions = {}
+  ): Promise<AllotmentJob> {
+    const mode = searchModeOf(request);
+    const tasks = listRegistrarKeys().map((registrar): AllotmentJobTask => {
+      const adapter = getRegistrar(registrar)!;
+      return supportsSearchMode(adapter, mode)
+        ? { key: registrar, status: 'pending', attempts: 0 }
+        : { key: registrar, status: 'skipped', attempts: 0, result: unsupportedSearchResponse(adapter, mode) };
+    });
+    return submitJob({ kind: 'check_all', request, options }, tasks);
+  }
+
+  static async getJob(id: string): Promise<AllotmentJob | null> {
+    const job = await store.get(id);
+    return job ? jobView(job) : null;
+  }
+
+  // Swap the job store, e.g. for a persistent one, and pick up any jobs queued in it
+  static setStore(jobStore: AllotmentJobStore): void {
+    store = jobStore;
+    startWorkers();
+  }
+}
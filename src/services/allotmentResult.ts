@@ -0,0 +1,265 @@
+import * as cheerio from 'cheerio';
+import {
+  AllotmentApplication,
+  AllotmentResultStatus,
+  AllotmentStatus,
+  AllotmentSummary,
+  BulkAllotmentApplicant,
+  BulkAllotmentRow,
+  BulkAllotmentTotals,
+  IPOAllotmentResponse,
+  ParsedAllotmentResult
+} from '../types/ipoAllotment';
+import { maskPan } from './privacy';
+
+// Statuses that settle the allotment question for good
+export const DEFINITIVE_STATUSES: AllotmentResultStatus[] = ['allotted', 'not_allotted'];
+
+// Parse a registrar number such as "1,200", "₹ 14,500.00" or "-" into a number
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const cleaned = value.replace(/[,\s₹]|rs\.?|inr/gi, '');
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) {
+    return undefined;
+  }
+  return parseFloat(cleaned);
+}
+
+// Map free-text registrar status to our enumerated status
+export function normalizeAllotmentStatus(text: string | null | undefined): AllotmentResultStatus {
+  const value = (text || '').toLowerCase().trim();
+
+  if (!value) return 'unknown';
+  if (/no (record|data|application)|not found|record not|not available/.test(value)) return 'no_record';
+  if (value.includes('captcha')) return 'captcha_required';
+  if (/non[\s-]*allot|not[\s-]*allot|no[\s-]*allot|rejected/.test(value)) return 'not_allotted';
+  if (/pending|process|awaited/.test(value)) return 'pending';
+  if (/allot/.test(value)) return 'allotted';
+  return 'unknown';
+}
+
+// Decide the status from a parsed share count, when the registrar only reports numbers
+export function statusFromShares(sharesAllotted: number | undefined): AllotmentResultStatus {
+  if (sharesAllotted === undefined) return 'unknown';
+  return sharesAllotted > 0 ? 'allotted' : 'not_allotted';
+}
+
+// Totals across applications; missing counts and amounts add nothing
+export function summarizeApplications(applications: AllotmentApplication[]): AllotmentSummary {
+  const total = (field: 'sharesApplied' | 'sharesAllotted' | 'refundAmount') =>
+    applications.reduce((sum, application) => sum + (application[field] || 0), 0);
+
+  return {
+    applicationCount: applications.length,
+    allottedCount: applications.filter((application) => application.status === 'allotted').length,
+    totalSharesApplied: total('sharesApplied'),
+    totalSharesAllotted: total('sharesAllotted'),
+    totalRefundAmount: total('refundAmount')
+  };
+}
+
+// Build a result from every application found. The overall status is allotted when any
+// application got shares, pending while any is undecided, not allotted when all were
+// rejected, and otherwise the first application's. rawStatus and allotmentDetails come from
+// the first application with the overall status.
+export function resultFromApplications(applications: AllotmentApplication[]): ParsedAllotmentResult {
+  const [first] = applications;
+  if (!first) {
+    return { status: 'no_record' };
+  }
+
+  const statuses = applications.map((application) => application.status);
+  let status = first.status;
+  if (statuses.includes('allotted')) {
+    status = 'allotted';
+  } else if (statuses.includes('pending')) {
+    status = 'pending';
+  } else if (statuses.every((applicationStatus) => applicationStatus === 'not_allotted')) {
+    status = 'not_allotted';
+  }
+
+  const deciding = applications.find((application) => application.status === status) || first;
+  const { status: _decidingStatus, rawStatus, ...allotmentDetails } = deciding;
+  return {
+    status,
+    rawStatus,
+    allotmentDetails,
+    applications,
+    summary: summarizeApplications(applications)
+  };
+}
+
+// One row of the bulk table, with share counts summed over the applicant's applications
+export function bulkAllotmentRow(applicant: BulkAllotmentApplicant, result: IPOAllotmentResponse): BulkAllotmentRow {
+  const details = result.allotmentDetails;
+  return {
+    ...applicant,
+    panNo: maskPan(applicant.panNo),
+    status: result.status,
+    rawStatus: result.rawStatus,
+    sharesApplied: result.summary?.totalSharesApplied ?? details?.sharesApplied ?? 0,
+    sharesAllotted: result.summary?.totalSharesAllotted ?? details?.sharesAllotted ?? 0,
+    refundAmount: result.summary?.totalRefundAmount ?? details?.refundAmount ?? 0,
+    result
+  };
+}
+
+// Totals across a bulk check's rows
+export function summarizeBulkRows(rows: BulkAllotmentRow[]): BulkAllotmentTotals {
+  const count = (status: BulkAllotmentRow['status']) => rows.filter((row) => row.status === status).length;
+  const allotted = count('allotted');
+  const notAllotted = count('not_allotted');
+  const noRecord = count('no_record');
+
+  return {
+    applicants: rows.length,
+    allotted,
+    notAllotted,
+    noRecord,
+    unresolved: rows.length - allotted - notAllotted - noRecord,
+    totalSharesApplied: rows.reduce((sum, row) => sum + row.sharesApplied, 0),
+    totalSharesAllotted: rows.reduce((sum, row) => sum + row.sharesAllotted, 0),
+    totalRefundAmount: rows.reduce((sum, row) => sum + row.refundAmount, 0)
+  };
+}
+
+type NumericColumn = 'sharesApplied' | 'sharesAllotted' | 'amount' | 'refundAmount';
+
+// Status columns ("Allotment Status", "Result") are checked first and skipped: the row's wording
+// decides the status, and "allot" in their header doesn't make them a share count
+const STATUS_COLUMN_PATTERN = /status|result|remark/i;
+
+// Result table headers, matched in order so "Shares Allotted" isn't read as "Shares Applied"
+const COLUMN_PATTERNS: Array<{ field: keyof AllotmentStatus; pattern: RegExp }> = [
+  { field: 'sharesAllotted', pattern: /(shares?|qty|quantity|securities)[\s_.]*allot|allot+(ed|ment)?[\s_.]*(shares?|qty|quantity|securities)|^\s*allott?ed\s*$/i },
+  { field: 'sharesApplied', pattern: /appl(ied)?[\s_.]*(shares?|qty|quantity)|(shares?|qty|quantity)[\s_]*appl|^applied/i },
+  { field: 'refundMode', pattern: /refund[\s_]*mode/i },
+  { field: 'refundAmount', pattern: /refund/i },
+  { field: 'applicationNumber', pattern: /appl(ication)?[\s_.]*(no|number|num)/i },
+  { field: 'dpId', pattern: /dp|client|hold/i },
+  { field: 'category', pattern: /categ/i },
+  { field: 'amount', pattern: /amount/i },
+  { field: 'applicantName', pattern: /name/i }
+];
+
+const NUMERIC_COLUMNS = new Set<keyof AllotmentStatus>(['sharesApplied', 'sharesAllotted', 'amount', 'refundAmount']);
+
+function isNumericColumn(field: keyof AllotmentStatus): field is NumericColumn {
+  return NUMERIC_COLUMNS.has(field);
+}
+
+// Read one result table row into normalised details, using the header text to find each column
+export function mapResultColumns(headers: string[], cells: string[]): AllotmentStatus {
+  const details: AllotmentStatus = {};
+  const assigned = new Set<keyof AllotmentStatus>();
+
+  headers.forEach((header, index) => {
+    const cell = (cells[index] || '').trim();
+    if (STATUS_COLUMN_PATTERN.test(header)) {
+      return;
+    }
+    const column = COLUMN_PATTERNS.find(({ field, pattern }) => !assigned.has(field) && pattern.test(header));
+    if (!column || !cell) {
+      return;
+    }
+
+    const field = column.field;
+    assigned.add(field);
+    if (isNumericColumn(field)) {
+      details[field] = toNumber(cell);
+    } else {
+      details[field] = cell;
+    }
+  });
+
+  return details;
+}
+
+// A row only counts as an application when it names one or carries share counts
+function hasApplicationFields(details: AllotmentStatus): boolean {
+  return details.applicationNumber !== undefined ||
+    details.sharesApplied !== undefined ||
+    details.sharesAllotted !== undefined;
+}
+
+// Decide the status of a parsed row: share counts win over the row's wording
+function statusFromRow(details: AllotmentStatus, rowText: string): AllotmentResultStatus {
+  if (details.sharesAllotted !== undefined) {
+    return statusFromShares(details.sharesAllotted);
+  }
+  const status = normalizeAllotmentStatus(rowText);
+  return status === 'no_record' ? 'unknown' : status;
+}
+
+// Parse a registrar's HTML result page. Handles header-row tables (one application per row)
+// and two-column "label | value" tables (one application per table); without either, only a
+// "no record" or captcha message is trusted, since the rest of the page (titles, instructions)
+// mentions allotment anyway.
+export function parseResultPage(html: string): ParsedAllotmentResult {
+  const $ = cheerio.load(html);
+  const cellTexts = (row: any) => $(row).children('th, td').map((_, cell) => $(cell).text().trim()).get();
+
+  const applications: AllotmentApplication[] = [];
+  const addApplication = (details: AllotmentStatus, rowText: string) => {
+    if (hasApplicationFields(details)) {
+      applications.push({ ...details, status: statusFromRow(details, rowText), rawStatus: rowText });
+    }
+  };
+
+  $('table').each((_, table) => {
+    // Only this table's own rows; nested tables are read on their own
+    const rows = $(table).find('tr').toArray()
+      .filter((row) => $(row).closest('table').is(table))
+      .map(cellTexts)
+      .filter((cells) => cells.length > 0);
+    if (rows.length === 0) return;
+
+    // Two-column tables list one field per row
+    if (rows.every((cells) => cells.length === 2)) {
+      const details = mapResultColumns(rows.map((cells) => cells[0]), rows.map((cells) => cells[1]));
+      addApplication(details, rows.map((cells) => cells.join(': ')).join(' | '));
+      return;
+    }
+
+    const [headers, ...dataRows] = rows;
+    for (const cells of dataRows) {
+      addApplication(mapResultColumns(headers, cells), cells.join(' | '));
+    }
+  });
+
+  if (applications.length > 0) {
+    return resultFromApplications(applications);
+  }
+
+  // Read the message from the innermost element that carries it, not the whole page
+  const messages = $('body *')
+    .filter((_, element) => $(element).children().length === 0)
+    .map((_, element) => $(element).text().replace(/\s+/g, ' ').trim())
+    .get();
+
+  for (const status of ['no_record', 'captcha_required'] as AllotmentResultStatus[]) {
+    const message = messages.find((text) => normalizeAllotmentStatus(text) === status);
+    if (message) {
+      return { status, rawStatus: message };
+    }
+  }
+  return { status: 'unknown' };
+}
+
+// Registrar JSON endpoints sometimes answer with a JSON string; decode it, or keep the body as it is
+export function decodeJsonBody(body: unknown): any {
+  if (typeof body !== 'string') {
+    return body;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  AllotmentSearch,
+  IPOAllotmentResponse,
+  RegistrarAdapter,
+  RegistrarSearchMode
+} from '../types/ipoAllotment';
+
+export const SEARCH_MODES: RegistrarSearchMode[] = ['pan', 'application', 'dpclient'];
+
+// How each search mode is described in error messages
+export const SEARCH_MODE_LABELS: Record<RegistrarSearchMode, string> = {
+  pan: 'PAN',
+  application: 'application number',
+  dpclient: 'DP/Client ID'
+};
+
+export function searchModeOf(search: AllotmentSearch): RegistrarSearchMode {
+  return search.searchBy || 'pan';
+}
+
+// The identifier for the request's search mode, as typed into a registrar's single search box.
+// DP/Client IDs are entered as one 16 character value.
+export function searchValueOf(search: AllotmentSearch): string {
+  switch (searchModeOf(search)) {
+    case 'application':
+      return search.applicationNo || '';
+    case 'dpclient':
+      return `${search.dpId || ''}${search.clientId || ''}`;
+    default:
+      return search.panNo || '';
+  }
+}
+
+export function supportsSearchMode(adapter: RegistrarAdapter, mode: RegistrarSearchMode): boolean {
+  return adapter.capabilities.searchModes.includes(mode);
+}
+
+// Response for a registrar that can't be searched the requested way
+export function unsupportedSearchResponse(adapter: RegistrarAdapter, mode: RegistrarSearchMode): IPOAllotmentResponse {
+  return {
+    success: false,
+    registrar: adapter.key,
+    raw: null,
+    status: 'unsupported',
+    error: `${adapter.name} does not support searching by ${SEARCH_MODE_LABELS[mode]}. ` +
+      `Supported: ${adapter.capabilities.searchModes.map((supported) => SEARCH_MODE_LABELS[supported]).join(', ')}`
+  };
+}
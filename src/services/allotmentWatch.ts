@@ -0,0 +1,297 @@
+import axios from 'axios';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+  AllotmentResultStatus,
+  AllotmentWatch,
+  AllotmentWatchCreation,
+  AllotmentWatchRequest,
+  AllotmentWatchStatus,
+  IPOAllotmentResponse
+} from '../types/ipoAllotment';
+import { IPOAllotmentService } from './ipoAllotmentService';
+import { resolveRegistrar } from './registrarResolver';
+import { DEFINITIVE_STATUSES } from './allotmentResult';
+import { searchModeOf, supportsSearchMode, unsupportedSearchResponse } from './allotmentSearch';
+import { maskSearchPan, tokenMatches } from './privacy';
+import { getRegistrar } from '../registrars';
+import { checkCallbackUrl, publicLookup } from './callbackUrl';
+
+const WATCH_DURATION = 3 * 24 * 60 * 60 * 1000; // 3 days; results are out within a day or two of allotment
+const WATCH_RETENTION = 7 * 24 * 60 * 60 * 1000; // Finished watches are kept for a week
+const MAX_WATCHES = 1000; // Oldest finished watches are dropped beyond this
+
+// Re-checks back off from 2 minutes, doubling up to every 30 minutes
+const FIRST_RECHECK_DELAY = 2 * 60 * 1000;
+const MAX_RECHECK_DELAY = 30 * 60 * 1000;
+const CHECK_TIMEOUT = 30000; // 30 seconds per check
+const SCHEDULER_INTERVAL = 30 * 1000; // How often due watches are looked for
+const MAX_CONCURRENT_CHECKS = 2;
+
+const CALLBACK_ATTEMPTS = 3;
+const CALLBACK_TIMEOUT = 10000; // 10 seconds
+const CALLBACK_RETRY_DELAY = 5000; // 5 seconds, then 10
+
+// Results that re-checking won't change
+const FINAL_FAILURE_STATUSES: AllotmentResultStatus[] = ['ambiguous', 'unsupported', 'captcha_required'];
+
+// A watch with the hash of its owner's token, which never leaves this module
+interface StoredWatch extends AllotmentWatch {
+  tokenHash: string;
+}
+
+// Watches by ID, in creation order. Held in memory by the instance that created them.
+const watches = new Map<string, StoredWatch>();
+let schedulerTimer: NodeJS.Timeout | null = null;
+let checking = false;
+let checkAgain = false; // A run was asked for while one was in progress, e.g. for a new watch
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A watch as reported by the API and sent to callbacks, with its PAN masked
+function watchView(watch: StoredWatch): AllotmentWatch {
+  const { tokenHash: _tokenHash, ...view } = watch;
+  return { ...view, request: maskSearchPan(view.request) };
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Drop finished watches past retention and enforce the size limit. Active watches are never dropped.
+function cleanupWatches(): void {
+  const now = Date.now();
+  for (const [id, watch] of watches.entries()) {
+    if (watch.finishedAt && now - Date.parse(watch.finishedAt) > WATCH_RETENTION) {
+      watches.delete(id);
+    }
+  }
+
+  for (const [id, watch] of watches.entries()) {
+    if (watches.size <= MAX_WATCHES) break;
+    if (watch.finishedAt) {
+      watches.delete(id);
+    }
+  }
+}
+
+// POST the finished watch to its callback URL, retrying failed deliveries. The URL is checked
+// again before each attempt, connections only go to public addresses, and redirects aren't
+// followed, so a callback can't be turned against internal services.
+async function deliverCallback(watch: StoredWatch): Promise<void> {
+  const callback = watch.callback!;
+  const payload = { event: `watch.${watch.status}`, watch: watchView(watch) };
+
+  for (let attempt = 1; attempt <= CALLBACK_ATTEMPTS; attempt++) {
+    callback.attempts++;
+    try {
+      const refused = await checkCallbackUrl(callback.url);
+      if (refused) {
+        callback.lastError = refused;
+        console.error(`Watch ${watch.id} callback refused:`, refused);
+        return;
+      }
+      await axios.post(callback.url, payload, {
+        timeout: CALLBACK_TIMEOUT,
+        maxRedirects: 0,
+        lookup: publicLookup,
+        headers: { 'Content-Type': 'application/json', 'X-Watch-Id': watch.id }
+      });
+      callback.deliveredAt = new Date().toISOString();
+      callback.lastError = undefined;
+      return;
+    } catch (error: any) {
+      callback.lastError = error.message;
+      console.error(`Watch ${watch.id} callback attempt ${attempt} failed:`, error.message);
+      if (attempt < CALLBACK_ATTEMPTS) {
+        await sleep(CALLBACK_RETRY_DELAY * attempt);
+      }
+    }
+  }
+}
+
+function finishWatch(watch: StoredWatch, status: AllotmentWatchStatus, result?: IPOAllotmentResponse): void {
+  watch.status = status;
+  watch.result = result;
+  watch.nextCheckAt = undefined;
+  watch.finishedAt = new Date().toISOString();
+  console.log(`Watch ${watch.id} ${status}${result ? ` with ${result.status}` : ''} after ${watch.checks} checks`);
+
+  if (watch.callback && status !== 'cancelled') {
+    deliverCallback(watch).catch((error: any) => console.error(`Watch ${watch.id} callback failed:`, error.message));
+  }
+}
+
+// Check a watch once, then finish it or schedule the next check
+async function checkWatch(watch: StoredWatch): Promise<void> {
+  // Always ask the registrar: a cached "no record" would hide results published since
+  const result = await IPOAllotmentService.checkRegistrarWithin(watch.registrar, watch.request, CHECK_TIMEOUT, {
+    bypassCache: true
+  });
+  if (watch.status !== 'watching') {
+    return; // Cancelled while the check ran
+  }
+
+  watch.checks++;
+  watch.lastStatus = result.status;
+  watch.lastCheckedAt = new Date().toISOString();
+
+  if (DEFINITIVE_STATUSES.includes(result.status)) {
+    finishWatch(watch, 'completed', result);
+  } else if (FINAL_FAILURE_STATUSES.includes(result.status)) {
+    finishWatch(watch, 'failed', result);
+  } else {
+    const delay = Math.min(MAX_RECHECK_DELAY, FIRST_RECHECK_DELAY * 2 ** (watch.checks - 1));
+    watch.nextCheckAt = new Date(Date.now() + delay).toISOString();
+  }
+}
+
+// Expire overdue watches and check the ones that are due, a couple at a time
+async function runDueChecks(): Promise<void> {
+  if (checking) {
+    checkAgain = true;
+    return;
+  }
+  checking = true;
+  checkAgain = false;
+
+  try {
+    const now = Date.now();
+    const active = Array.from(watches.values()).filter((watch) => watch.status === 'watching');
+    for (const watch of active) {
+      if (Date.parse(watch.expiresAt) <= now) {
+        finishWatch(watch, 'expired');
+      }
+    }
+
+    const due = active.filter((watch) => watch.status === 'watching' && Date.parse(watch.nextCheckAt!) <= now);
+    let nextIndex = 0;
+    const worker = async (): Promise<void> => {
+      while (nextIndex < due.length) {
+        const watch = due[nextIndex++];
+        await checkWatch(watch).catch((error: any) => {
+          console.error(`Error checking watch ${watch.id}:`, error.message);
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CHECKS, due.length) }, worker));
+  } finally {
+    checking = false;
+    cleanupWatches();
+  }
+
+  if (checkAgain) {
+    await runDueChecks();
+  }
+}
+
+// Allotment watches: a PAN and IPO re-checked with their registrar, backing off between checks,
+// until a definitive result is published. The result is stored on the watch and sent to the
+// watch's callback URL.
+export class AllotmentWatchService {
+  static async create(request: AllotmentWatchRequest): Promise<AllotmentWatchCreation> {
+    const { registrar: requestedRegistrar, label, callbackUrl, symbol, slug, trendlyneId, ...search } = request;
+
+    let registrar = requestedRegistrar;
+    let resolution: AllotmentWatchCreation['resolution'] = null;
+    let attempts: AllotmentWatchCreation['attempts'] = [];
+    if (!registrar) {
+      ({ resolution, attempts } = await resolveRegistrar({ ipoName: search.ipoName, symbol, slug, trendlyneId }));
+      if (!resolution) {
+        return { resolution, attempts, watch: null, error: 'Could not determine the registrar for this IPO from IPO metadata' };
+      }
+      registrar = resolution.registrar;
+    }
+
+    const rejected = (error: string): AllotmentWatchCreation => ({ resolution, attempts, watch: null, error });
+    const adapter = getRegistrar(registrar);
+    if (!adapter) {
+      return rejected(`Unknown registrar: ${registrar}`);
+    }
+    if (adapter.capabilities.captcha) {
+      return rejected(`${adapter.name} asks for a captcha on every check, so it can't be watched`);
+    }
+    const mode = searchModeOf(search);
+    if (!supportsSearchMode(adapter, mode)) {
+      return rejected(unsupportedSearchResponse(adapter, mode).error!);
+    }
+
+    // Registrar lookups need a company name; fall back to the one listed by the metadata source
+    const ipoName = search.ipoName || resolution?.companyName;
+    if (!ipoName) {
+      return rejected('No company name available to look up the IPO with the registrar');
+    }
+
+    // Only whoever created the watch gets the token, so only they can read or cancel it
+    const token = randomBytes(24).toString('base64url');
+    const now = Date.now();
+    const watch: StoredWatch = {
+      id: randomUUID(),
+      registrar,
+      request: { ...search, ipoName, companyCode: resolution?.companyCode },
+      label,
+      status: 'watching',
+      checks: 0,
+      nextCheckAt: new Date(now).toISOString(),
+      callback: callbackUrl ? { url: callbackUrl, attempts: 0 } : undefined,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + WATCH_DURATION).toISOString(),
+      tokenHash: hashToken(token)
+    };
+    watches.set(watch.id, watch);
+
+    // Check straight away rather than waiting for the scheduler
+    runDueChecks().catch((error: any) => console.error('Error running watch checks:', error.message));
+    return { resolution, attempts, watch: watchView(watch), token };
+  }
+
+  static get(id: string): AllotmentWatch | null {
+    const watch = watches.get(id);
+    return watch ? watchView(watch) : null;
+  }
+
+  // Whether a token is the one handed out when the watch was created
+  static isOwner(id: string, token: unknown): boolean {
+    const watch = watches.get(id);
+    return !!watch && typeof token === 'string' && tokenMatches(hashToken(token), watch.tokenHash);
+  }
+
+  // Watches newest first, optionally only those with a status
+  static list(status?: AllotmentWatchStatus): AllotmentWatch[] {
+    return Array.from(watches.values())
+      .filter((watch) => !status || watch.status === status)
+      .reverse()
+      .map(watchView);
+  }
+
+  // Stop watching. Finished watches are returned unchanged; null when the ID is unknown.
+  static cancel(id: string): AllotmentWatch | null {
+    const watch = watches.get(id);
+    if (!watch) {
+      return null;
+    }
+    if (watch.status === 'watching') {
+      finishWatch(watch, 'cancelled');
+    }
+    return watchView(watch);
+  }
+
+  // Check due watches in the background while the process is alive
+  static startScheduler(intervalMs: number = SCHEDULER_INTERVAL): void {
+    if (schedulerTimer) {
+      return;
+    }
+    schedulerTimer = setInterval(() => {
+      runDueChecks().catch((error) => {
+        console.error('Error running watch checks:', error.message);
+      });
+    }, intervalMs);
+    schedulerTimer.unref(); // Don't keep the process alive just for watches
+  }
+
+  static stopScheduler(): void {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  }
+}
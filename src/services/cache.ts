@@ -0,0 +1,386 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CacheEntry, CacheOptions, CacheStats, CacheStore } from '../types/ipoAllotment';
+
+const DEFAULT_CACHE_DIR = '.cache';
+
+// In-process store, the default. Entries are copied in and out, so callers behave the same as
+// with a persistent store, and are lost when the instance stops.
+export class MemoryCacheStore implements CacheStore {
+  private readonly namespaces = new Map<string, Map<string, CacheEntry>>();
+
+  private entriesOf(namespace: string): Map<string, CacheEntry> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    return entries;
+  }
+
+  async get(namespace: string, key: string): Promise<CacheEntry | null> {
+    const entry = this.namespaces.get(namespace)?.get(key);
+    return entry ? structuredClone(entry) : null;
+  }
+
+  async set(namespace: string, key: string, entry: CacheEntry): Promise<void> {
+    this.entriesOf(namespace).set(key, structuredClone(entry));
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.namespaces.get(namespace)?.delete(key);
+  }
+
+  async keys(namespace: string): Promise<string[]> {
+    return Array.from(this.namespaces.get(namespace)?.keys() || []);
+  }
+
+  async clear(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+}
+
+// Filesystem store: a directory per namespace holding one JSON file per entry, so cached
+// lookups survive restarts. Files are named by a hash of the key, which is kept inside.
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  private directoryOf(namespace: string): string {
+    return path.join(this.directory, encodeURIComponent(namespace));
+  }
+
+  private fileOf(namespace: string, key: string): string {
+    return path.join(this.directoryOf(namespace), `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  // Read an entry file; null when it is missing or unreadable
+  private async readFile(file: string): Promise<{ key: string; entry: CacheEntry } | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Ignoring unreadable cache file ${file}:`, error.message);
+      }
+      return null;
+    }
+  }
+
+  async get(namespace: string, key: string): Promise<CacheEntry | null> {
+    const stored = await this.readFile(this.fileOf(namespace, key));
+    return stored?.key === key ? stored.entry : null;
+  }
+
+  // Written to a temporary file first, so a crash never leaves half an entry behind
+  async set(namespace: string, key: string, entry: CacheEntry): Promise<void> {
+    const file = this.fileOf(namespace, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify({ key, entry }));
+    await fs.rename(temporary, file);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await fs.rm(this.fileOf(namespace, key), { force: true });
+  }
+
+  async keys(namespace: string): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directoryOf(namespace));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      const stored = await this.readFile(path.join(this.directoryOf(namespace), file));
+      if (stored) {
+        keys.push(stored.key);
+      }
+    }
+    return keys;
+  }
+
+  async clear(namespace: string): Promise<void> {
+    await fs.rm(this.directoryOf(namespace), { recursive: true, force: true });
+  }
+}
+
+let store: CacheStore | null = null;
+
+// Caches by namespace, in creation order
+const caches = new Map<string, Cache<any>>();
+
+// The store every cache uses: set with setCacheStore, or picked from CACHE_STORE ('memory', the
+// default, or 'file' under CACHE_DIR) on first use
+function cacheStore(): CacheStore {
+  if (!store) {
+    store = process.env.CACHE_STORE === 'file'
+      ? new FileCacheStore(process.env.CACHE_DIR || DEFAULT_CACHE_DIR)
+      : new MemoryCacheStore();
+  }
+  return store;
+}
+
+// A namespace of cached values with a default lifetime and a size limit. Expired entries are
+// never served, and the least recently used are dropped once the namespace is full. A failing
+// store is logged and treated as a miss, so callers carry on without the cache.
+export class Cache<T> {
+  // Key → expiry time, least recently used first. Built from the store on first use, so entries
+  // a persistent store kept from an earlier run count towards the limit.
+  private readonly recency = new Map<string, number>();
+  private indexed: Promise<void> | null = null;
+  private readonly loads = new Map<string, Promise<T>>();
+  private readonly listeners = new Set<() => void>();
+  private readonly counters = { hits: 0, misses: 0, sets: 0, evictions: 0, expirations: 0 };
+
+  constructor(readonly namespace: string, private readonly options: CacheOptions) {}
+
+  private index(): Promise<void> {
+    if (!this.indexed) {
+      this.indexed = (async () => {
+        const found: Array<[string, CacheEntry]> = [];
+        for (const key of await cacheStore().keys(this.namespace)) {
+          const entry = await cacheStore().get(this.namespace, key);
+          if (entry) {
+            found.push([key, entry]);
+          }
+        }
+        found.sort(([, a], [, b]) => a.storedAt - b.storedAt);
+        for (const [key, entry] of found) {
+          if (!this.recency.has(key)) {
+            this.recency.set(key, entry.expiresAt);
+          }
+        }
+      })().catch((error: any) => {
+        console.error(`Error indexing cache ${this.namespace}:`, error.message);
+      });
+    }
+    return this.indexed;
+  }
+
+  // Forget the index, e.g. after the store is swapped
+  reset(): void {
+    this.recency.clear();
+    this.indexed = null;
+  }
+
+  // Call a listener whenever entries are set, deleted or cleared, e.g. to snapshot the cache.
+  // Adding the same listener again has no effect.
+  onChange(listener: () => void): void {
+    this.listeners.add(listener);
+  }
+
+  private changed(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async remove(key: string): Promise<void> {
+    this.recency.delete(key);
+    await cacheStore().delete(this.namespace, key);
+  }
+
+  // Drop expired entries, then the least recently used beyond the size limit
+  private async enforceLimits(): Promise<void> {
+    const now = Date.now();
+    for (const [key, expiresAt] of Array.from(this.recency.entries())) {
+      if (expiresAt <= now) {
+        this.counters.expirations++;
+        await this.remove(key);
+      }
+    }
+
+    for (const key of Array.from(this.recency.keys())) {
+      if (this.recency.size <= this.options.maxEntries) break;
+      this.counters.evictions++;
+      await this.remove(key);
+    }
+  }
+
+  // The live entry for a key, counting the lookup as a hit or a miss
+  async getEntry(key: string): Promise<CacheEntry<T> | null> {
+    await this.index();
+    let entry: CacheEntry | null = null;
+    try {
+      entry = this.recency.has(key) ? await cacheStore().get(this.namespace, key) : null;
+    } catch (error: any) {
+      console.error(`Error reading cache ${this.namespace}:`, error.message);
+    }
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.counters.expirations++;
+        await this.remove(key);
+      } else {
+        this.recency.delete(key);
+      }
+      this.counters.misses++;
+      return null;
+    }
+
+    this.counters.hits++;
+    this.recency.delete(key);
+    this.recency.set(key, entry.expiresAt);
+    return entry as CacheEntry<T>;
+  }
+
+  // The live entry for a key without counting a lookup or refreshing its recency, for inspection
+  async peek(key: string): Promise<CacheEntry<T> | null> {
+    await this.index();
+    const entry = this.recency.has(key) ? await cacheStore().get(this.namespace, key) : null;
+    return entry && entry.expiresAt > Date.now() ? entry as CacheEntry<T> : null;
+  }
+
+  // Keys of live entries, least recently used first
+  async keys(): Promise<string[]> {
+    await this.index();
+    const now = Date.now();
+    return Array.from(this.recency.entries())
+      .filter(([, expiresAt]) => expiresAt > now)
+      .map(([key]) => key);
+  }
+
+  // Live entries with their keys, least recently used first, for inspection
+  async entries(): Promise<Array<CacheEntry<T> & { key: string }>> {
+    const entries: Array<CacheEntry<T> & { key: string }> = [];
+    for (const key of await this.keys()) {
+      const entry = await this.peek(key);
+      if (entry) {
+        entries.push({ key, ...entry });
+      }
+    }
+    return entries;
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    return (await this.getEntry(key))?.value;
+  }
+
+  async set(key: string, value: T, ttlMs: number = this.options.ttlMs): Promise<void> {
+    await this.index();
+    const now = Date.now();
+    const entry: CacheEntry<T> = { value, storedAt: now, expiresAt: now + ttlMs };
+
+    try {
+      await cacheStore().set(this.namespace, key, entry);
+      this.counters.sets++;
+      this.recency.delete(key);
+      this.recency.set(key, entry.expiresAt);
+      await this.enforceLimits();
+      this.changed();
+    } catch (error: any) {
+      console.error(`Error writing cache ${this.namespace}:`, error.message);
+    }
+  }
+
+  // Put back entries saved elsewhere, e.g. a snapshot, keeping their original times. Expired
+  // entries and keys the cache already holds are skipped. Listeners aren't called.
+  async restore(entries: Array<CacheEntry<T> & { key: string }>): Promise<void> {
+    await this.index();
+    const now = Date.now();
+    const restorable = entries
+      .filter((entry) => entry.expiresAt > now && !this.recency.has(entry.key))
+      .sort((a, b) => a.storedAt - b.storedAt);
+
+    try {
+      for (const { key, ...entry } of restorable) {
+        await cacheStore().set(this.namespace, key, entry);
+        this.recency.set(key, entry.expiresAt);
+      }
+      await this.enforceLimits();
+    } catch (error: any) {
+      console.error(`Error restoring cache ${this.namespace}:`, error.message);
+    }
+  }
+
+  // Cached value for a key, or load and cache it. Concurrent loads of one key are shared.
+  // ttlFor picks each loaded value's lifetime, or null to leave it uncached (e.g. an error).
+  async getOrLoad(
+    key: string,
+    load: () => Promise<T>,
+    ttlFor: (value: T) => number | null = () => this.options.ttlMs
+  ): Promise<T> {
+    const cached = await this.getEntry(key);
+    if (cached) {
+      return cached.value;
+    }
+
+    let pending = this.loads.get(key);
+    if (!pending) {
+      pending = (async () => {
+        try {
+          const value = await load();
+          const ttlMs = ttlFor(value);
+          if (ttlMs !== null) {
+            await this.set(key, value, ttlMs);
+          }
+          return value;
+        } finally {
+          this.loads.delete(key);
+        }
+      })();
+      this.loads.set(key, pending);
+    }
+    return pending;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.index();
+    const existed = this.recency.has(key);
+    await this.remove(key);
+    if (existed) {
+      this.changed();
+    }
+    return existed;
+  }
+
+  async clear(): Promise<void> {
+    await cacheStore().clear(this.namespace);
+    this.recency.clear();
+    this.indexed = Promise.resolve();
+    this.changed();
+  }
+
+  // Drop expired entries without waiting for the next write
+  async prune(): Promise<void> {
+    await this.index();
+    await this.enforceLimits();
+  }
+
+  stats(): CacheStats {
+    const { hits, misses } = this.counters;
+    return {
+      namespace: this.namespace,
+      ...this.options,
+      size: this.recency.size,
+      ...this.counters,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null
+    };
+  }
+}
+
+// Get a namespace's cache, creating it with these options on first use
+export function createCache<T>(namespace: string, options: CacheOptions): Cache<T> {
+  let cache = caches.get(namespace);
+  if (!cache) {
+    cache = new Cache<T>(namespace, options);
+    caches.set(namespace, cache);
+  }
+  return cache;
+}
+
+export function getCache(namespace: string): Cache<unknown> | undefined {
+  return caches.get(namespace);
+}
+
+export function listCaches(): Cache<unknown>[] {
+  return Array.from(caches.values());
+}
+
+// Swap the store behind every cache, e.g. for a shared one
+export function setCacheStore(cacheStoreToUse: CacheStore): void {
+  store = cacheStoreToUse;
+  caches.forEach((cache) => cache.reset());
+}
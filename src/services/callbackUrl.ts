@@ -0,0 +1,88 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import { LookupAddressEntry } from 'axios';
+
+// Addresses a callback must never reach: this host, private networks, link-local (including
+// cloud metadata endpoints such as 169.254.169.254), and reserved or multicast ranges
+const blockedAddresses = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// Hosts from WATCH_CALLBACK_ALLOWED_HOSTS; when set, callbacks may only go to these
+function allowedHosts(): string[] {
+  return (process.env.WATCH_CALLBACK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are matched against the IPv4 ranges too
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolve a callback host, refusing it when any of its addresses is internal
+async function resolvePublicAddresses(hostname: string): Promise<LookupAddressEntry[]> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) as 4 | 6 }]
+    : (await dns.lookup(host, { all: true })).map(({ address, family }) => ({ address, family: family as 4 | 6 }));
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new Error(`${hostname} resolves to a private, loopback or link-local address`);
+  }
+  return addresses;
+}
+
+// Why a callback URL can't be used, or null when it can: it must be http or https, and its host
+// must be allowed by WATCH_CALLBACK_ALLOWED_HOSTS when that is set, and otherwise resolve only
+// to public addresses
+export async function checkCallbackUrl(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'callbackUrl must be an http or https URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'callbackUrl must be an http or https URL';
+  }
+
+  const allowed = allowedHosts();
+  if (allowed.length > 0 && !allowed.includes(url.hostname.toLowerCase())) {
+    return `callbackUrl host must be one of: ${allowed.join(', ')}`;
+  }
+
+  try {
+    await resolvePublicAddresses(url.hostname);
+    return null;
+  } catch (error: any) {
+    return `callbackUrl can't be used: ${error.message}`;
+  }
+}
+
+// DNS lookup for callback requests. Checked again on every connection, so a host that passed
+// when the watch was created can't be pointed at an internal address later.
+export async function publicLookup(hostname: string): Promise<LookupAddressEntry> {
+  const [first] = await resolvePublicAddresses(hostname);
+  return first;
+}
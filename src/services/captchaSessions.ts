@@ -0,0 +1,99 @@
+import { randomBytes } from 'crypto';
+import {
+  CaptchaSessionState,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse,
+  RegistrarType
+} from '../types/ipoAllotment';
+import { FormSession } from './formSession';
+
+const SESSION_TTL = 5 * 60 * 1000; // 5 minutes; registrar captchas and form state go stale quickly
+const MAX_SESSIONS = 500; // Oldest sessions are dropped beyond this
+
+// A check paused at a captcha, waiting for the user's answer
+export interface CaptchaSession {
+  registrar: RegistrarType;
+  request: IPOAllotmentRequest;
+  state: CaptchaSessionState;
+  expiresAt: number;
+  cacheKey?: string; // Result cache key of the check that stopped here, so the answer's result is kept under it
+}
+
+// Sessions by token, in creation order. Held in memory by the instance that issued them.
+const sessions = new Map<string, CaptchaSession>();
+
+// Drop expired sessions and enforce the size limit
+function cleanupSessions(): void {
+  const now = Date.now();
+  for (const [token, session] of sessions.entries()) {
+    if (session.expiresAt <= now) {
+      sessions.delete(token);
+    }
+  }
+
+  for (const token of sessions.keys()) {
+    if (sessions.size < MAX_SESSIONS) break;
+    sessions.delete(token);
+  }
+}
+
+// Download a captcha image in the form's session, as a data URL the frontend can show directly.
+// Any cookies the image sets stay in the session, since the answer is tied to them.
+export async function fetchCaptchaImage(session: FormSession, url: string, referer: string): Promise<string> {
+  const response = await session.request({
+    url,
+    referer,
+    responseType: 'arraybuffer',
+    headers: { 'Accept': 'image/avif,image/webp,image/png,image/*,*/*;q=0.8' }
+  });
+
+  const contentType = String(response.headers['content-type'] || 'image/png').split(';')[0];
+  return `data:${contentType};base64,${Buffer.from(response.data).toString('base64')}`;
+}
+
+// Save what's needed to finish the check and hand the captcha to the user
+export function captchaChallengeResponse(
+  registrar: RegistrarType,
+  request: IPOAllotmentRequest,
+  image: string,
+  state: CaptchaSessionState
+): IPOAllotmentResponse {
+  cleanupSessions();
+
+  const token = randomBytes(24).toString('base64url');
+  const expiresAt = Date.now() + SESSION_TTL;
+  sessions.set(token, { registrar, request, state, expiresAt });
+
+  return {
+    success: true,
+    registrar,
+    raw: null,
+    status: 'captcha_required',
+    details: 'Submit the captcha answer with the token to finish the check',
+    captcha: {
+      token,
+      image,
+      expiresAt: new Date(expiresAt).toISOString()
+    }
+  };
+}
+
+// Remember the result cache key of the check a session belongs to. The key is worked out when the
+// check starts; working it out again for the answer could mean another company list lookup.
+export function setCaptchaCacheKey(token: string, cacheKey: string): void {
+  const session = sessions.get(token);
+  if (session) {
+    session.cacheKey = cacheKey;
+  }
+}
+
+// Take a session to answer it. Sessions are single use: a registrar form can only be posted once.
+export function takeCaptchaSession(token: string): CaptchaSession | null {
+  const session = sessions.get(token);
+  sessions.delete(token);
+
+  if (!session || session.expiresAt <= Date.now()) {
+    return null;
+  }
+  return session;
+}
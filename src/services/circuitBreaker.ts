@@ -0,0 +1,201 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { CircuitBreakerOptions, CircuitBreakerStatus, CircuitState } from '../types/ipoAllotment';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN = 30000; // 30 seconds
+
+// Starts every fail-fast error message, so it can be recognised after a checker has caught it
+export const UPSTREAM_UNAVAILABLE = 'Upstream unavailable';
+
+// Thrown instead of sending a request to a host whose breaker is open
+export class UpstreamUnavailableError extends Error {
+  constructor(readonly host: string, readonly retryAt: number) {
+    super(`${UPSTREAM_UNAVAILABLE}: ${host} is failing, retrying after ${new Date(retryAt).toISOString()}`);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+// Whether an error, or an error message a checker kept from one, came from an open breaker
+export function isUpstreamUnavailable(error: unknown): boolean {
+  if (error instanceof UpstreamUnavailableError) return true;
+  const message = typeof error === 'string' ? error : (error as any)?.message;
+  return typeof message === 'string' && message.includes(`${UPSTREAM_UNAVAILABLE}:`);
+}
+
+// Whether a request failed in a way that may not happen again: the host couldn't be reached, timed
+// out or answered with a server error (or a 429). Refusals and cancelled requests are final.
+export function isTransientFailure(error: any): boolean {
+  if (!error || axios.isCancel(error) || error instanceof UpstreamUnavailableError) {
+    return false;
+  }
+  if (error.response) {
+    return error.response.status >= 500 || error.response.status === 429;
+  }
+  return axios.isAxiosError(error);
+}
+
+// Breaker for one upstream host. Consecutive failures (network errors, timeouts and 5xx answers)
+// open it; after the cool-down one trial request is let through, and its outcome closes the
+// breaker or reopens it for another cool-down.
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastFailure?: string;
+  private rejected = 0;
+
+  constructor(readonly host: string, private options: CircuitBreakerOptions) {}
+
+  configure(options: Partial<CircuitBreakerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Let a request through, or throw when the breaker is open
+  admit(): void {
+    if (this.state === 'open' && Date.now() >= this.retryAt()) {
+      this.state = 'half_open';
+    }
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    if (this.state !== 'closed') {
+      this.rejected++;
+      throw new UpstreamUnavailableError(this.host, this.retryAt());
+    }
+  }
+
+  succeeded(): void {
+    if (this.state !== 'closed') {
+      console.log(`Circuit breaker for ${this.host} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  failed(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.error(`Circuit breaker for ${this.host} opened after ${this.consecutiveFailures} failures: ${reason}`);
+    }
+    this.trialInFlight = false;
+  }
+
+  // The request was cancelled by its caller, which says nothing about the host
+  released(): void {
+    this.trialInFlight = false;
+  }
+
+  private retryAt(): number {
+    return (this.openedAt ?? 0) + this.options.cooldownMs;
+  }
+
+  status(): CircuitBreakerStatus {
+    const iso = (time: number | null) => (time === null ? undefined : new Date(time).toISOString());
+    return {
+      host: this.host,
+      ...this.options,
+      state: this.state === 'open' && Date.now() >= this.retryAt() ? 'half_open' : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: iso(this.openedAt),
+      retryAt: this.state === 'closed' ? undefined : iso(this.retryAt()),
+      lastFailure: this.lastFailure,
+      rejected: this.rejected
+    };
+  }
+}
+
+// Breakers by host, in the order hosts were first requested
+const breakers = new Map<string, CircuitBreaker>();
+
+// Per-host settings given before the host's breaker was created
+const hostOptions = new Map<string, Partial<CircuitBreakerOptions>>();
+
+// Defaults from CIRCUIT_BREAKER_FAILURE_THRESHOLD and CIRCUIT_BREAKER_COOLDOWN_MS
+function defaultOptions(): CircuitBreakerOptions {
+  const fromEnv = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return isNaN(value) || value < 1 ? fallback : value;
+  };
+  return {
+    failureThreshold: fromEnv('CIRCUIT_BREAKER_FAILURE_THRESHOLD', DEFAULT_FAILURE_THRESHOLD),
+    cooldownMs: fromEnv('CIRCUIT_BREAKER_COOLDOWN_MS', DEFAULT_COOLDOWN)
+  };
+}
+
+function breakerFor(host: string): CircuitBreaker {
+  let breaker = breakers.get(host);
+  if (!breaker) {
+    breaker = new CircuitBreaker(host, { ...defaultOptions(), ...hostOptions.get(host) });
+    breakers.set(host, breaker);
+  }
+  return breaker;
+}
+
+function hostOf(config: InternalAxiosRequestConfig): string | null {
+  try {
+    return new URL(config.url || '', config.baseURL).host;
+  } catch {
+    return null;
+  }
+}
+
+// Put every request the client sends behind its host's breaker. While a breaker is open,
+// requests to the host are rejected with an UpstreamUnavailableError instead of being sent.
+export function installCircuitBreaker(client: AxiosInstance): AxiosInstance {
+  client.interceptors.request.use((config) => {
+    const host = hostOf(config);
+    if (host) {
+      breakerFor(host).admit();
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      const host = hostOf(response.config);
+      if (host) {
+        const breaker = breakerFor(host);
+        // A client may accept any status, so server errors are counted here too
+        if (response.status >= 500) {
+          breaker.failed(`HTTP ${response.status}`);
+        } else {
+          breaker.succeeded();
+        }
+      }
+      return response;
+    },
+    (error) => {
+      const host = error.config && !(error instanceof UpstreamUnavailableError) ? hostOf(error.config) : null;
+      if (host) {
+        const breaker = breakerFor(host);
+        if (axios.isCancel(error)) {
+          breaker.released();
+        } else if (error.response && error.response.status < 500) {
+          breaker.succeeded(); // The host answered; the request was refused
+        } else {
+          breaker.failed(error.response ? `HTTP ${error.response.status}` : error.message);
+        }
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return client;
+}
+
+// Change a host's thresholds, e.g. a longer cool-down for a registrar that is slow to recover
+export function configureCircuitBreaker(host: string, options: Partial<CircuitBreakerOptions>): void {
+  hostOptions.set(host, { ...hostOptions.get(host), ...options });
+  breakers.get(host)?.configure(options);
+}
+
+export function listCircuitBreakers(): CircuitBreakerStatus[] {
+  return Array.from(breakers.values()).map((breaker) => breaker.status());
+}
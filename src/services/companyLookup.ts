@@ -0,0 +1,202 @@
+import {
+  CacheEntry,
+  CompanyMatchResult,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse,
+  RegistrarCompany,
+  RegistrarType,
+  ScoredCompany
+} from '../types/ipoAllotment';
+import { RegistrarDirectory } from './registrarDirectory';
+import { matchCompany } from './companyMatcher';
+import { Cache, createCache } from './cache';
+import { createSnapshot } from './snapshots';
+
+// Cached company lookup: the matched ID, or null with the candidates when missing or ambiguous
+interface CompanyIdCacheEntry {
+  id: string | null;
+  status: CompanyMatchResult['status'];
+  candidates: ScoredCompany[];
+}
+
+// Saved lookups of every registrar, by registrar
+type CompanyIdSnapshot = Partial<Record<RegistrarType, Array<CacheEntry<CompanyIdCacheEntry> & { key: string }>>>;
+
+const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+const NEGATIVE_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes for "not found", so new IPOs show up quickly
+const MAX_CACHE_SIZE = 1000; // Maximum number of entries to keep per registrar
+
+// Lookups are snapshotted as they change and restored when an instance starts, so a cold
+// instance doesn't scrape registrar company lists for IPOs already looked up
+const snapshot = createSnapshot<CompanyIdSnapshot>(
+  'company-ids',
+  async () => {
+    const data: CompanyIdSnapshot = {};
+    for (const registrar of RegistrarDirectory.getDirectoryRegistrars()) {
+      data[registrar] = await cacheFor(registrar).entries();
+    }
+    return data;
+  },
+  async (data) => {
+    for (const [registrar, entries] of Object.entries(data)) {
+      await cacheFor(registrar as RegistrarType).restore(entries || []);
+    }
+  }
+);
+
+const saveSnapshot = () => {
+  snapshot.save();
+};
+
+// Company ID cache for a registrar, keyed by lower-cased IPO name, to avoid repeated scraping
+function cacheFor(registrar: RegistrarType): Cache<CompanyIdCacheEntry> {
+  const cache = createCache<CompanyIdCacheEntry>(`company-ids:${registrar}`, {
+    ttlMs: CACHE_DURATION,
+    maxEntries: MAX_CACHE_SIZE
+  });
+  cache.onChange(saveSnapshot);
+  return cache;
+}
+
+// Company ID lookup shared by every registrar: rank the registrar's company list against
+// the IPO name, re-collecting the list once if nothing matches. Throws when the list can't be
+// collected, so an unreachable registrar is never cached as "not found".
+export async function lookupCompanyId(
+  registrar: RegistrarType,
+  ipoName: string,
+  signal?: AbortSignal
+): Promise<CompanyMatchResult> {
+  await snapshot.warm();
+  const cache = cacheFor(registrar);
+  const cacheKey = ipoName.toLowerCase().trim();
+
+  // Check cache first
+  const cached = await cache.get(cacheKey);
+  if (cached) {
+    console.log(`Using cached ${registrar} company ID for ${ipoName}: ${cached.id}`);
+    const match = cached.id ? cached.candidates.find((candidate) => candidate.code === cached.id) : undefined;
+    return { status: cached.status, match, candidates: cached.candidates };
+  }
+
+  const toOptions = (companies: RegistrarCompany[]) =>
+    companies.map((company) => ({ code: company.companyCode, name: company.displayName }));
+
+  let result = matchCompany(ipoName, toOptions(await RegistrarDirectory.getCompanies(registrar, signal)));
+  if (result.status === 'not_found' && await RegistrarDirectory.refreshAfterMiss(registrar, signal)) {
+    result = matchCompany(ipoName, toOptions(await RegistrarDirectory.getCompanies(registrar, signal)));
+  }
+
+  if (result.match) {
+    console.log(`Found ${registrar} company ID for "${ipoName}": ${result.match.code} (matched with "${result.match.name}", score ${result.match.score})`);
+  } else if (result.status === 'ambiguous') {
+    console.log(`Ambiguous ${registrar} company for "${ipoName}": ${result.candidates.map((c) => `${c.name} (${c.score})`).join(', ')}`);
+  } else {
+    console.log(`No ${registrar} company ID found for IPO name: ${ipoName}`);
+  }
+
+  // Cache the result (even if not found) to avoid repeated failed attempts
+  await cache.set(
+    cacheKey,
+    { id: result.match ? result.match.code : null, status: result.status, candidates: result.candidates },
+    result.match ? CACHE_DURATION : NEGATIVE_CACHE_DURATION
+  );
+  return result;
+}
+
+// Response for an IPO name that matches several registrar companies equally well
+export function ambiguousCompanyResponse(
+  registrar: RegistrarType,
+  ipoName: string,
+  lookup: CompanyMatchResult
+): IPOAllotmentResponse {
+  return {
+    success: false,
+    registrar,
+    raw: null,
+    status: 'ambiguous',
+    error: `Multiple companies match "${ipoName}". Retry with a more specific IPO name or one of the candidate company codes.`,
+    candidates: lookup.candidates
+  };
+}
+
+// Response for an IPO name that matches none of the registrar's companies, with the closest
+// ones the lookup found
+export function companyNotFoundResponse(
+  registrar: RegistrarType,
+  ipoName: string,
+  lookup?: CompanyMatchResult
+): IPOAllotmentResponse {
+  return {
+    success: false,
+    registrar,
+    raw: null,
+    status: 'error',
+    error: `No company found for IPO name: ${ipoName}`,
+    candidates: lookup && lookup.candidates.length > 0 ? lookup.candidates : undefined
+  };
+}
+
+// Resolve the request's IPO name to a company code. A company code already on the request is
+// used as is, and a numeric IPO name is taken as the code itself.
+// Returns the response to send instead when the name is ambiguous or unknown.
+export async function resolveCompanyCode(
+  registrar: RegistrarType,
+  { ipoName, companyCode }: Pick<IPOAllotmentRequest, 'ipoName' | 'companyCode'>,
+  signal?: AbortSignal,
+  directoryRegistrar: RegistrarType = registrar
+): Promise<{ companyCode: string } | { response: IPOAllotmentResponse }> {
+  if (companyCode) {
+    return { companyCode };
+  }
+  if (/^\d+$/.test(ipoName)) {
+    return { companyCode: ipoName };
+  }
+
+  const lookup = await lookupCompanyId(directoryRegistrar, ipoName, signal);
+  if (lookup.status === 'ambiguous') {
+    return { response: ambiguousCompanyResponse(registrar, ipoName, lookup) };
+  }
+  if (!lookup.match) {
+    return { response: companyNotFoundResponse(registrar, ipoName, lookup) };
+  }
+  return { companyCode: lookup.match.code };
+}
+
+// Look an IPO name up again from a freshly collected company list, replacing the cached lookup.
+// For when the cached lookup picked the wrong company or the registrar has just listed the IPO.
+export async function refreshCompanyLookup(registrar: RegistrarType, ipoName: string): Promise<CompanyMatchResult> {
+  await snapshot.warm();
+  await cacheFor(registrar).delete(ipoName.toLowerCase().trim());
+  await RegistrarDirectory.refresh(registrar);
+  return lookupCompanyId(registrar, ipoName);
+}
+
+// Clear one registrar's company ID cache, or all of them
+export async function clearCompanyIdCache(registrar?: RegistrarType): Promise<void> {
+  await snapshot.warm(); // Otherwise a later restore would bring the cleared lookups back
+  const registrars = registrar ? [registrar] : RegistrarDirectory.getDirectoryRegistrars();
+  await Promise.all(registrars.map((key) => cacheFor(key).clear()));
+}
+
+// Clean up expired entries in every company ID cache
+export async function cleanupCompanyIdCaches(): Promise<void> {
+  await Promise.all(RegistrarDirectory.getDirectoryRegistrars().map((registrar) => cacheFor(registrar).prune()));
+}
+
+// Cache stats for one registrar
+export async function getCompanyIdCache(registrar: RegistrarType): Promise<{
+  size: number;
+  entries: Array<{ ipoName: string; companyId: string | null; age: number }>;
+}> {
+  await snapshot.warm();
+  const cache = cacheFor(registrar);
+  const entries = [];
+  for (const ipoName of await cache.keys()) {
+    const entry = await cache.peek(ipoName);
+    if (entry) {
+      entries.push({ ipoName, companyId: entry.value.id, age: Date.now() - entry.storedAt });
+    }
+  }
+
+  return { size: entries.length, entries };
+}
@@ -0,0 +1,75 @@
+import { matchCompany, normalizeCompanyName, scoreCompanyName } from './companyMatcher';
+
+describe('normalizeCompanyName', () => {
+  it('drops suffixes, exchange tags and punctuation', () => {
+    expect(normalizeCompanyName('Acme Foods Ltd. - SME IPO')).toBe('acme foods');
+    expect(normalizeCompanyName('A&B Industries Private Limited')).toBe('a and b industries');
+  });
+});
+
+describe('scoreCompanyName', () => {
+  it('scores "Ltd" and "Limited" spellings of a name as the same company', () => {
+    expect(scoreCompanyName('Acme Foods Ltd', 'ACME FOODS LIMITED')).toBe(1);
+  });
+
+  it('ignores the SME tag registrars add to SME listings', () => {
+    expect(scoreCompanyName('Acme Foods', 'Acme Foods Limited - SME')).toBe(1);
+  });
+
+  it('scores a different company with a shared word low', () => {
+    expect(scoreCompanyName('Zenith Motors', 'Zenith Textiles Limited')).toBeLessThan(0.5);
+  });
+});
+
+describe('matchCompany', () => {
+  const companies = [
+    { code: '101', name: 'Acme Foods Limited' },
+    { code: '201', name: 'Bharat Ind Ltd' },
+    { code: '301', name: 'Sunrise Textiles Limited' },
+    { code: '302', name: 'Sunrise Textile Limited' },
+    { code: '401', name: 'Zenith Textiles Limited' }
+  ];
+
+  it('matches an IPO name across suffix and SME tag differences', () => {
+    expect(matchCompany('Acme Foods Ltd SME IPO', companies)).toMatchObject({
+      status: 'matched',
+      match: { code: '101', score: 1 }
+    });
+  });
+
+  it('matches abbreviated words', () => {
+    expect(matchCompany('Bharat Industries', companies)).toMatchObject({
+      status: 'matched',
+      match: { code: '201' }
+    });
+  });
+
+  it('reports two candidates within the ambiguity margin as ambiguous', () => {
+    const result = matchCompany('Sunrise Textiles', companies);
+
+    expect(result.status).toBe('ambiguous');
+    expect(result.match).toBeUndefined();
+    expect(result.candidates.slice(0, 2).map((candidate) => candidate.code)).toEqual(['301', '302']);
+    expect(result.candidates[0].score - result.candidates[1].score).toBeLessThan(0.08);
+  });
+
+  it('picks the best candidate when the margin allows it', () => {
+    expect(matchCompany('Sunrise Textiles', companies, { ambiguityMargin: 0.05 })).toMatchObject({
+      status: 'matched',
+      match: { code: '301' }
+    });
+  });
+
+  it('reports a best score below minScore as not found', () => {
+    expect(matchCompany('Zenith Motors', companies)).toEqual({ status: 'not_found', candidates: [] });
+    expect(matchCompany('Zenith Motors', companies, { minScore: 0.4 })).toMatchObject({
+      status: 'matched',
+      match: { code: '401' }
+    });
+  });
+
+  it('lists a company code the registrar repeats once', () => {
+    const repeated = [...companies, { code: '101', name: 'Acme Foods Ltd' }];
+    expect(matchCompany('Acme Foods', repeated)).toMatchObject({ status: 'matched', match: { code: '101' } });
+  });
+});
@@ -0,0 +1,143 @@
+import { CompanyMatchResult, CompanyOption, ScoredCompany } from '../types/ipoAllotment';
+
+export interface CompanyMatchOptions {
+  minScore?: number; // Candidates below this confidence are not considered matches
+  ambiguityMargin?: number; // Top two candidates closer than this are reported as ambiguous
+  limit?: number; // Number of candidates returned
+}
+
+const DEFAULT_MIN_SCORE = 0.5;
+const DEFAULT_AMBIGUITY_MARGIN = 0.08;
+const DEFAULT_CANDIDATE_LIMIT = 5;
+
+// Words that registrars add or drop freely and that say nothing about which company it is
+const NOISE_WORDS = new Set([
+  'limited', 'ltd', 'pvt', 'private', 'company', 'co', 'corp', 'corporation',
+  'inc', 'incorporated', 'the', 'ipo', 'sme', 'nse', 'bse', 'emerge'
+]);
+
+// Normalise a company name: lowercase, "&" as "and", punctuation and suffixes like Ltd/Limited/SME removed
+export function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word) => word && !NOISE_WORDS.has(word))
+    .join(' ');
+}
+
+// Dice coefficient over character bigrams, tolerant of spacing and small spelling differences
+function bigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+// Dice coefficient over words; abbreviated words ("ind" for "industries") count as partial matches
+function wordSimilarity(aWords: string[], bWords: string[]): number {
+  if (aWords.length === 0 || bWords.length === 0) return 0;
+
+  const remaining = [...bWords];
+  let matched = 0;
+
+  for (const word of aWords) {
+    const exact = remaining.indexOf(word);
+    if (exact !== -1) {
+      matched += 1;
+      remaining.splice(exact, 1);
+      continue;
+    }
+
+    const partial = remaining.findIndex((other) =>
+      Math.min(word.length, other.length) >= 3 && (other.startsWith(word) || word.startsWith(other)));
+    if (partial !== -1) {
+      matched += 0.8;
+      remaining.splice(partial, 1);
+    }
+  }
+
+  return (2 * matched) / (aWords.length + bWords.length);
+}
+
+// Score how well a registrar company name matches an IPO name, from 0 (unrelated) to 1 (same name)
+export function scoreCompanyName(query: string, candidate: string): number {
+  const a = normalizeCompanyName(query);
+  const b = normalizeCompanyName(candidate);
+
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const compactA = a.replace(/ /g, '');
+  const compactB = b.replace(/ /g, '');
+  if (compactA === compactB) return 0.98;
+
+  let score = 0.6 * wordSimilarity(a.split(' '), b.split(' ')) + 0.4 * bigramSimilarity(compactA, compactB);
+
+  // One name extending the other ("Acme" vs "Acme Foods") is a strong but not certain signal
+  if (compactA.startsWith(compactB) || compactB.startsWith(compactA)) {
+    const shorter = Math.min(compactA.length, compactB.length);
+    const longer = Math.max(compactA.length, compactB.length);
+    score = Math.max(score, 0.75 + 0.2 * (shorter / longer));
+  }
+
+  return Math.min(0.97, Math.round(score * 1000) / 1000);
+}
+
+// Rank every company against the IPO name, best first
+export function rankCompanies(query: string, companies: CompanyOption[]): ScoredCompany[] {
+  const seen = new Set<string>();
+
+  return companies
+    .map((company) => ({ code: company.code, name: company.name, score: scoreCompanyName(query, company.name) }))
+    .sort((a, b) => b.score - a.score)
+    .filter((company) => {
+      // Registrars sometimes list the same company code twice
+      if (seen.has(company.code)) return false;
+      seen.add(company.code);
+      return true;
+    });
+}
+
+// Pick the company an IPO name refers to, or report that it is ambiguous or missing
+export function matchCompany(
+  query: string,
+  companies: CompanyOption[],
+  options: CompanyMatchOptions = {}
+): CompanyMatchResult {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const ambiguityMargin = options.ambiguityMargin ?? DEFAULT_AMBIGUITY_MARGIN;
+  const limit = options.limit ?? DEFAULT_CANDIDATE_LIMIT;
+
+  const candidates = rankCompanies(query, companies)
+    .filter((company) => company.score >= minScore)
+    .slice(0, limit);
+
+  if (candidates.length === 0) {
+    return { status: 'not_found', candidates };
+  }
+
+  const [best, runnerUp] = candidates;
+  if (runnerUp && best.score - runnerUp.score < ambiguityMargin) {
+    return { status: 'ambiguous', candidates };
+  }
+
+  return { status: 'matched', match: best, candidates };
+}
@@ -0,0 +1,180 @@
+import { readFileSync } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import { FormPage, FormSession, findForm, harvestFields, prepareSubmission } from './formSession';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', 'form-session', name), 'utf8');
+
+const pageFrom = (name: string, url: string): FormPage => {
+  const html = fixture(name);
+  return { url, html, $: cheerio.load(html) };
+};
+
+describe('harvestFields', () => {
+  it('submits what a browser would for an untouched form', () => {
+    const $ = cheerio.load(fixture('aspnet.html'));
+    const fields = harvestFields($, findForm($)!);
+
+    expect(Array.from(fields.entries())).toEqual([
+      ['__EVENTTARGET', ''],
+      ['__EVENTARGUMENT', ''],
+      ['__VIEWSTATE', '/wEPDwUKMTY3NzE5MjIzMQ9kFgICAw9kFgQCAQ8QZGQWAWZkAgMPD2QWAh4Hb25jbGljawUKcmV0dXJuIGZuKClkZA=='],
+      ['__VIEWSTATEGENERATOR', 'CA0B0334'],
+      ['__EVENTVALIDATION', '/wEdAAbvHc1UGCR0Bz0qp0XlwB8R'],
+      ['drpCompany', '0'],
+      ['ddlUserTypes', 'PAN NO'],
+      ['txtfolio', ''],
+      ['chkTerms', 'on'],
+      ['rbLang', 'en'],
+      ['txtRemarks', 'none']
+    ]);
+  });
+});
+
+describe('findForm', () => {
+  it('finds the form holding an element rather than the first form on the page', () => {
+    const $ = cheerio.load(fixture('csrf.html'));
+
+    expect(findForm($, 'input[name="csrfmiddlewaretoken"]')!.hasClass('ipo-query')).toBe(true);
+  });
+
+  it('falls back to the first form when nothing matches', () => {
+    const $ = cheerio.load(fixture('csrf.html'));
+
+    expect(findForm($)!.attr('action')).toBe('/newsletter/subscribe');
+    expect(findForm($, 'select[name="drpCompany"]')!.attr('action')).toBe('/newsletter/subscribe');
+  });
+
+  it('returns null when the page has no form', () => {
+    expect(findForm(cheerio.load('<p>Down for maintenance</p>'), 'input[name="csrfmiddlewaretoken"]')).toBeNull();
+  });
+});
+
+describe('prepareSubmission', () => {
+  it('posts a form with an empty action back to the page it came from', () => {
+    const page = pageFrom('csrf.html', 'https://registrar.example/investor-service/ipo-query');
+    const form = findForm(page.$, 'input[name="csrfmiddlewaretoken"]')!;
+
+    expect(prepareSubmission(page, form, { company_id: '412', panNumber: 'ABCDE1234F' })).toEqual({
+      url: 'https://registrar.example/investor-service/ipo-query',
+      method: 'POST',
+      fields: [
+        ['csrfmiddlewaretoken', 'Xq3mZ7b1c2d3e4f5g6h7i8j9k0LmNoPq'],
+        ['company_id', '412'],
+        ['applicationNumber', ''],
+        ['panNumber', 'ABCDE1234F'],
+        ['submit', 'Search']
+      ],
+      referer: 'https://registrar.example/investor-service/ipo-query',
+      headers: undefined
+    });
+  });
+
+  it('presses the named submit button and removes null values', () => {
+    const page = pageFrom('aspnet.html', 'https://status.example/');
+    const submission = prepareSubmission(page, findForm(page.$)!, { txtRemarks: null }, { submitter: 'btngenerate' });
+    const fields = new URLSearchParams(submission.fields);
+
+    expect(submission.url).toBe('https://status.example/Default.aspx');
+    expect(fields.get('btngenerate')).toBe('Submit');
+    expect(fields.has('btnReset')).toBe(false);
+    expect(fields.has('txtRemarks')).toBe(false);
+  });
+
+  it('sends an update panel postback triggered by the pressed button', () => {
+    const page = pageFrom('aspnet.html', 'https://status.example/');
+    const submission = prepareSubmission(page, findForm(page.$)!, { drpCompany: 'AVRO', txtfolio: 'ABCDE1234F' }, {
+      submitter: 'btngenerate',
+      updatePanel: { scriptManager: 'ScriptManager1', panel: 'OrdersPanel' }
+    });
+    const fields = new URLSearchParams(submission.fields);
+
+    expect(fields.get('ScriptManager1')).toBe('OrdersPanel|btngenerate');
+    expect(fields.get('__ASYNCPOST')).toBe('true');
+    expect(fields.get('drpCompany')).toBe('AVRO');
+    expect(submission.headers).toMatchObject({ 'X-MicrosoftAjax': 'Delta=true', 'X-Requested-With': 'XMLHttpRequest' });
+  });
+
+  it('names the postback target instead of a button for a control postback', () => {
+    const page = pageFrom('aspnet.html', 'https://status.example/');
+    const submission = prepareSubmission(page, findForm(page.$)!, { __EVENTTARGET: 'drpCompany' }, {
+      submitter: false,
+      updatePanel: { scriptManager: 'ScriptManager1', panel: 'OrdersPanel' }
+    });
+    const fields = new URLSearchParams(submission.fields);
+
+    expect(fields.get('ScriptManager1')).toBe('OrdersPanel|drpCompany');
+    expect(fields.has('btnReset')).toBe(false);
+    expect(fields.has('btngenerate')).toBe(false);
+  });
+});
+
+describe('FormSession', () => {
+  const requests: Array<{ method?: string; url?: string; cookie?: string; body: string }> = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  // A registrar that sets its session cookie on a redirect, and redirects a form post to its result
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, cookie: req.headers.cookie, body });
+
+        if (req.url === '/') {
+          res.writeHead(302, { 'Location': '/ipo/', 'Set-Cookie': 'ASP.NET_SessionId=s3ss10n; path=/; HttpOnly' });
+          res.end();
+        } else if (req.url === '/ipo/submit') {
+          res.writeHead(302, { 'Location': 'result', 'Set-Cookie': 'step=result; path=/' });
+          res.end();
+        } else {
+          res.writeHead(200, { 'Content-Type': 'text/html', 'Set-Cookie': 'lang=en; path=/' });
+          res.end(`<form method="post" action="submit"><input name="pan" value=""></form>`);
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('keeps cookies set on a redirect and follows it to the page', async () => {
+    const session = new FormSession();
+    const page = await session.load(`${baseUrl}/`);
+
+    expect(page.url).toBe(`${baseUrl}/ipo/`);
+    expect(requests.map((request) => request.url)).toEqual(['/', '/ipo/']);
+    expect(requests[1].cookie).toBe('ASP.NET_SessionId=s3ss10n');
+    expect(session.cookieHeader).toBe('ASP.NET_SessionId=s3ss10n; lang=en');
+  });
+
+  it('follows a redirected form post as a GET with every cookie collected', async () => {
+    const session = new FormSession();
+    const page = await session.load(`${baseUrl}/`);
+    const result = await session.submit(page, findForm(page.$)!, { pan: 'ABCDE1234F' });
+
+    expect(result.url).toBe(`${baseUrl}/ipo/result`);
+    expect(requests.slice(2)).toEqual([
+      { method: 'POST', url: '/ipo/submit', cookie: 'ASP.NET_SessionId=s3ss10n; lang=en', body: 'pan=ABCDE1234F' },
+      { method: 'GET', url: '/ipo/result', cookie: 'ASP.NET_SessionId=s3ss10n; lang=en; step=result', body: '' }
+    ]);
+  });
+
+  it('resumes from a saved cookie header', async () => {
+    const session = new FormSession({ cookies: 'ASP.NET_SessionId=s4v3d' });
+    await session.load(`${baseUrl}/ipo/`);
+
+    expect(requests[0].cookie).toBe('ASP.NET_SessionId=s4v3d');
+  });
+});
@@ -0,0 +1,281 @@
+import { AxiosResponse, ResponseType } from 'axios';
+import * as cheerio from 'cheerio';
+import { registrarApiClient as apiClient } from './registrarClient';
+
+const MAX_REDIRECTS = 5;
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9'
+};
+
+// Input types a browser never submits as form values; submit buttons are only sent when pressed
+const UNSUBMITTED_INPUT_TYPES = new Set(['submit', 'image', 'button', 'reset', 'file']);
+
+export type FormElement = ReturnType<cheerio.CheerioAPI>;
+
+// A fetched HTML page, with the URL it ended up at after redirects
+export interface FormPage {
+  url: string;
+  html: string;
+  $: cheerio.CheerioAPI;
+}
+
+export interface FormSessionOptions {
+  signal?: AbortSignal;
+  cookies?: string; // Cookie header to start from, e.g. saved while a captcha was being solved
+}
+
+export interface FormRequest {
+  url: string;
+  method?: 'GET' | 'POST';
+  params?: URLSearchParams;
+  data?: URLSearchParams;
+  headers?: Record<string, string>;
+  referer?: string;
+  responseType?: ResponseType;
+}
+
+// A filled-in form, ready to send
+export interface PreparedSubmission {
+  url: string;
+  method: 'GET' | 'POST';
+  fields: Array<[string, string]>;
+  referer: string;
+  headers?: Record<string, string>;
+}
+
+export interface SubmitOptions {
+  submitter?: string | false; // Name of the submit button to press (default: the first one), or false for none
+  headers?: Record<string, string>;
+  // Send as an ASP.NET AJAX partial postback for this ScriptManager and update panel;
+  // the response is then the update panel delta rather than a page
+  updatePanel?: { scriptManager: string; panel: string };
+}
+
+// Field values the way a browser would submit the form untouched: hidden and text inputs,
+// checked radios and checkboxes, each select's selected (or first) option and textareas.
+// Disabled controls and buttons are left out.
+export function harvestFields($: cheerio.CheerioAPI, form: FormElement): URLSearchParams {
+  const fields = new URLSearchParams();
+
+  form.find('input, select, textarea').each((_, element) => {
+    const $el = $(element);
+    const name = $el.attr('name');
+    if (!name || $el.attr('disabled') !== undefined) return;
+
+    if ($el.is('select')) {
+      const options = $el.find('option');
+      const selected = options.filter('[selected]').first();
+      const option = selected.length > 0 ? selected : options.first();
+      if (option.length > 0) {
+        fields.append(name, option.attr('value') ?? option.text().trim());
+      }
+      return;
+    }
+
+    if ($el.is('textarea')) {
+      fields.append(name, $el.text());
+      return;
+    }
+
+    const type = ($el.attr('type') || 'text').toLowerCase();
+    if (UNSUBMITTED_INPUT_TYPES.has(type)) return;
+    if ((type === 'radio' || type === 'checkbox') && $el.attr('checked') === undefined) return;
+
+    fields.append(name, $el.attr('value') ?? (type === 'checkbox' || type === 'radio' ? 'on' : ''));
+  });
+
+  return fields;
+}
+
+// Find the form holding the first element that matches, or the page's first form
+export function findForm($: cheerio.CheerioAPI, containing?: string): FormElement | null {
+  const element = containing ? $(containing).first() : $();
+  const form = element.length > 0 ? element.closest('form') : $('form').first();
+  return form.length > 0 ? form : null;
+}
+
+// Fill in a form from a page: every harvested field, overridden by values (null removes a
+// field), plus the pressed submit button, addressed to the form's action with its method.
+// The result is plain data, so it can be saved and sent later by a session with the same cookies.
+export function prepareSubmission(
+  page: FormPage,
+  form: FormElement,
+  values: Record<string, string | null> = {},
+  options: SubmitOptions = {}
+): PreparedSubmission {
+  const fields = harvestFields(page.$, form);
+  for (const [name, value] of Object.entries(values)) {
+    if (value === null) {
+      fields.delete(name);
+    } else {
+      fields.set(name, value);
+    }
+  }
+
+  const buttons = form.find('input[type="submit"], button[type="submit"], button:not([type])')
+    .filter((_, element) => !!page.$(element).attr('name'));
+  const submitter = options.submitter === false
+    ? page.$()
+    : options.submitter
+      ? buttons.filter((_, element) => page.$(element).attr('name') === options.submitter).first()
+      : buttons.first();
+  if (submitter.length > 0 && !fields.has(submitter.attr('name')!)) {
+    fields.append(submitter.attr('name')!, submitter.attr('value') ?? '');
+  }
+
+  let headers = options.headers;
+  if (options.updatePanel) {
+    const trigger = fields.get('__EVENTTARGET') || submitter.attr('name') || '';
+    fields.set(options.updatePanel.scriptManager, `${options.updatePanel.panel}|${trigger}`);
+    fields.set('__ASYNCPOST', 'true');
+    headers = {
+      'X-Requested-With': 'XMLHttpRequest',
+      'X-MicrosoftAjax': 'Delta=true',
+      'Cache-Control': 'no-cache',
+      ...headers
+    };
+  }
+
+  return {
+    url: new URL(form.attr('action') || page.url, page.url).toString(),
+    method: (form.attr('method') || 'GET').toUpperCase() === 'POST' ? 'POST' : 'GET',
+    fields: Array.from(fields.entries()),
+    referer: page.url,
+    headers
+  };
+}
+
+// A browser-like scraping session: a cookie jar shared by every request, redirects followed
+// hop by hop (so cookies set along the way are kept), and forms submitted with every field
+// the page served, so sites adding a hidden field don't break the flow.
+export class FormSession {
+  private readonly cookies = new Map<string, string>();
+  private readonly signal?: AbortSignal;
+
+  constructor(options: FormSessionOptions = {}) {
+    this.signal = options.signal;
+    if (options.cookies) {
+      this.storeCookies(options.cookies.split('; '));
+    }
+  }
+
+  // Cookie header for the next request; also what to save to resume the session later
+  get cookieHeader(): string {
+    return Array.from(this.cookies.entries()).map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+
+  private storeCookies(setCookie: string[] | undefined): void {
+    for (const cookie of setCookie || []) {
+      const pair = cookie.split(';')[0];
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+      this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  }
+
+  // Send a request with the session's cookies, following redirects. A redirected POST
+  // continues as a GET, as browsers do for 301, 302 and 303.
+  async request({
+    url,
+    method = 'GET',
+    params,
+    data,
+    headers,
+    referer,
+    responseType
+  }: FormRequest): Promise<AxiosResponse & { url: string }> {
+    let currentUrl = url;
+    let currentMethod = method;
+    let currentData = data;
+    let currentParams = params;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const response = await apiClient.request({
+        url: currentUrl,
+        method: currentMethod,
+        params: currentParams,
+        data: currentData,
+        responseType,
+        signal: this.signal,
+        maxRedirects: 0,
+        validateStatus: (status) => status >= 200 && status < 400,
+        headers: {
+          ...BROWSER_HEADERS,
+          ...(currentData ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+          ...(referer ? { 'Referer': referer } : {}),
+          ...headers,
+          'Cookie': this.cookieHeader
+        }
+      });
+      this.storeCookies(response.headers['set-cookie']);
+
+      const location = response.headers['location'];
+      if (response.status < 300 || !location) {
+        return Object.assign(response, { url: currentUrl });
+      }
+
+      referer = currentUrl;
+      currentUrl = new URL(location, currentUrl).toString();
+      currentParams = undefined;
+      if (response.status !== 307 && response.status !== 308) {
+        currentMethod = 'GET';
+        currentData = undefined;
+      }
+    }
+
+    throw new Error(`Too many redirects fetching ${url}`);
+  }
+
+  // Fetch an HTML page
+  async load(url: string, options: Omit<FormRequest, 'url'> = {}): Promise<FormPage> {
+    const response = await this.request({ url, ...options });
+    const html = typeof response.data === 'string' ? response.data : String(response.data ?? '');
+    return { url: response.url, html, $: cheerio.load(html) };
+  }
+
+  // Send a prepared form submission, with any last-minute values (e.g. a captcha answer)
+  async send(submission: PreparedSubmission, values: Record<string, string> = {}): Promise<FormPage> {
+    const fields = new URLSearchParams(submission.fields);
+    for (const [name, value] of Object.entries(values)) {
+      fields.set(name, value);
+    }
+
+    const isPost = submission.method === 'POST';
+    return this.load(submission.url, {
+      method: submission.method,
+      data: isPost ? fields : undefined,
+      params: isPost ? undefined : fields,
+      referer: submission.referer,
+      headers: submission.headers
+    });
+  }
+
+  // Fill in and submit a form from a page
+  async submit(
+    page: FormPage,
+    form: FormElement,
+    values: Record<string, string | null> = {},
+    options: SubmitOptions = {}
+  ): Promise<FormPage> {
+    return this.send(prepareSubmission(page, form, values, options));
+  }
+
+  // Fire an ASP.NET postback from a control that isn't a button (what __doPostBack does):
+  // __EVENTTARGET names the control and no submit button is sent
+  async postBack(
+    page: FormPage,
+    form: FormElement,
+    eventTarget: string,
+    values: Record<string, string | null> = {},
+    options: Omit<SubmitOptions, 'submitter'> = {}
+  ): Promise<FormPage> {
+    return this.submit(
+      page,
+      form,
+      { __EVENTTARGET: eventTarget, __EVENTARGUMENT: '', ...values },
+      { ...options, submitter: false }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import * as cheerio from 'cheerio';
+import { HealthMarker, HealthMarkerResult } from '../types/ipoAllotment';
+
+// Marker for an HTML page: the selector must match at least one element
+export function htmlMarker(selector: string): HealthMarker {
+  return {
+    name: selector,
+    found: (body) => typeof body === 'string' && cheerio.load(body)(selector).length > 0
+  };
+}
+
+// Marker for a JSON response, tested with a predicate on the parsed body
+export function jsonMarker(name: string, test: (data: any) => boolean): HealthMarker {
+  return {
+    name,
+    found: (body) => {
+      try {
+        return Boolean(test(typeof body === 'string' ? JSON.parse(body) : body));
+      } catch {
+        return false;
+      }
+    }
+  };
+}
+
+// Which markers a response body contains
+export function checkMarkers(body: any, markers: HealthMarker[]): HealthMarkerResult[] {
+  return markers.map((marker) => ({ name: marker.name, present: marker.found(body) }));
+}
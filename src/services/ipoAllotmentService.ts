@@ -1,1895 +1,544 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import * as cheerio from 'cheerio';
-import { 
-  IPOAllotmentRequest, 
-  IPOAllotmentResponse, 
+import {
+  AllotmentCheckOptions,
+  CompanyMatchResult,
+  AllotmentSearch,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse,
   RegistrarType,
-  RegistrarConfig 
+  RegistrarSummary,
+  CheckAllRegistrarsOptions,
+  CheckAllRegistrarsResult,
+  RegistrarCheckOutcome,
+  RegistrarLookupHints,
+  AutoAllotmentResult,
+  BulkAllotmentOptions,
+  BulkAllotmentPlan,
+  BulkAllotmentRequest,
+  BulkAllotmentResult,
+  BulkAllotmentRow,
+  RegistrarAdapter
 } from '../types/ipoAllotment';
+import { resolveRegistrar } from './registrarResolver';
+import { RegistrarDirectory } from './registrarDirectory';
+import { DEFINITIVE_STATUSES, bulkAllotmentRow, summarizeBulkRows } from './allotmentResult';
+import { searchModeOf, supportsSearchMode, unsupportedSearchResponse } from './allotmentSearch';
+import { setCaptchaCacheKey, takeCaptchaSession } from './captchaSessions';
+import { protectResponse } from './privacy';
+import { cacheResult, getCachedResult, resultCacheKey } from './resultCache';
+import { RegistrarOverrides } from './registrarOverrides';
+import { isTransientFailure, isUpstreamUnavailable } from './circuitBreaker';
+import { countAttempts } from './retryPolicy';
+import {
+  clearCompanyIdCache,
+  cleanupCompanyIdCaches,
+  getCompanyIdCache,
+  refreshCompanyLookup,
+  resolveCompanyCode
+} from './companyLookup';
+import {
+  getRegistrar,
+  hasRegistrar,
+  listRegistrarKeys,
+  listRegistrars,
+  summarizeRegistrar
+} from '../registrars';
+
+// Defaults for the concurrent check across all registrars
+const DEFAULT_CHECK_ALL_CONCURRENCY = 4;
+const DEFAULT_REGISTRAR_TIMEOUT = 20000; // 20 seconds per registrar
+const DEFAULT_CHECK_ALL_TIMEOUT = 45000; // 45 seconds for the whole fan-out
+
+// Defaults for bulk checks of several PANs with one registrar. Concurrency is capped so a
+// family's worth of PANs doesn't look like a flood to the registrar.
+const DEFAULT_BULK_CONCURRENCY = 3;
+const MAX_BULK_CONCURRENCY = 5;
+const DEFAULT_BULK_CHECK_TIMEOUT = 20000; // 20 seconds per PAN
+
+// Run one check through the result cache: a cached final or recent "no record" result is
+// served without asking the registrar, and fresh results are stamped, cached and returned with
+// the number of requests the check took. A manual override for the IPO name supplies the
+// company code unless the request brings its own.
+async function checkThroughCache(
+  adapter: RegistrarAdapter,
+  request: IPOAllotmentRequest,
+  options: AllotmentCheckOptions,
+  signal?: AbortSignal
+): Promise<IPOAllotmentResponse> {
+  const found = RegistrarOverrides.find({ ipoName: request.ipoName }, adapter.key);
+  const override = found && (!request.companyCode || request.companyCode === found.companyCode) ? found : null;
+  const target = override ? { ...request, companyCode: override.companyCode } : request;
+  const withOverride = (response: IPOAllotmentResponse): IPOAllotmentResponse =>
+    override ? { ...response, override } : response;
 
-// Configure axios with default settings for registrar APIs
-const apiClient: AxiosInstance = axios.create({
-  timeout: 30000, // 30 seconds timeout
-  headers: {
-    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    'Accept': 'application/json, text/plain, */*',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'Connection': 'keep-alive',
-    'Cache-Control': 'no-cache',
-    'Pragma': 'no-cache'
-  }
-});
-
-// Registrar configurations
-const registrarConfigs: Record<RegistrarType, RegistrarConfig> = {
-  bigshare: {
-    name: 'Bigshare Services',
-    baseUrl: 'https://ipo.bigshareonline.com',
-    method: 'POST',
-    endpoint: '/Data.aspx/FetchIpodetails',
-    requiresCompanyCode: true,
-    responseType: 'json'
-  },
-  kfintech: {
-    name: 'KFintech',
-    baseUrl: 'https://ipostatus.kfintech.com',
-    method: 'GET',
-    endpoint: '/api/query',
-    responseType: 'json'
-  },
-  linkintime: {
-    name: 'Link Intime (now MUFG Intime India Private Limited)',
-    baseUrl: 'https://in.mpms.mufg.com',
-    method: 'POST',
-    endpoint: '/Initial_Offer/IPO.aspx/SearchOnPan',
-    requiresCompanyCode: true,
-    responseType: 'json'
-  },
-  skyline: {
-    name: 'Skyline Financial Services',
-    baseUrl: 'https://www.skylinerta.com',
-    method: 'GET',
-    endpoint: '/display_application.php',
-    requiresCompanyCode: true,
-    responseType: 'html'
-  },
-  cameo: {
-    name: 'Cameo Corporate Services',
-    baseUrl: 'https://ipo.cameoindia.com',
-    method: 'POST',
-    endpoint: '/',
-    responseType: 'html'
-  },
-  mas: {
-    name: 'MAS Services',
-    baseUrl: 'https://maservices.biz',
-    method: 'GET',
-    endpoint: '/ApplicationStatus.aspx',
-    responseType: 'html'
-  },
-  maashitla: {
-    name: 'Maashitla Securities',
-    baseUrl: 'https://www.maashitla.com',
-    method: 'GET',
-    endpoint: '/PublicIssues/Search',
-    responseType: 'html'
-  },
-  beetal: {
-    name: 'Beetal Financial & Computer Services',
-    baseUrl: 'https://www.beetalfinancial.com',
-    method: 'GET',
-    endpoint: '/',
-    responseType: 'html'
-  },
-  purva: {
-    name: 'Purva Sharegistry',
-    baseUrl: 'https://www.purvashare.com',
-    method: 'POST',
-    endpoint: '/investor-service/ipo-query',
-    responseType: 'html'
-  },
-  mufg: {
-    name: 'MUFG Intime India Private Limited',
-    baseUrl: 'https://in.mpms.mufg.com',
-    method: 'POST',
-    endpoint: '/Initial_Offer/IPO.aspx/SearchOnPan',
-    requiresCompanyCode: true,
-    responseType: 'json'
-  }
-};
-
-// Cache for BigShare company IDs to avoid repeated scraping
-const bigshareCompanyIdCache = new Map<string, { id: string | null; timestamp: number }>();
-
-// Cache for MUFG company IDs to avoid repeated scraping
-const mufgCompanyIdCache = new Map<string, { id: string | null; timestamp: number }>();
-
-// Cache for Purva company IDs to avoid repeated scraping
-const purvaCompanyIdCache = new Map<string, { id: string | null; timestamp: number }>();
-
-// Cache for Skyline company IDs to avoid repeated scraping
-const skylineCompanyIdCache = new Map<string, { id: string | null; timestamp: number }>();
-
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-const MAX_CACHE_SIZE = 1000; // Maximum number of entries to keep in cache
-
-// Clean up expired cache entries and enforce size limit
-function cleanupCache(): void {
-  const now = Date.now();
-
-  // Remove expired entries
-  for (const [key, value] of bigshareCompanyIdCache.entries()) {
-    if (now - value.timestamp > CACHE_DURATION) {
-      bigshareCompanyIdCache.delete(key);
-    }
-  }
-
-  // Enforce size limit by removing oldest entries
-  if (bigshareCompanyIdCache.size > MAX_CACHE_SIZE) {
-    const entries = Array.from(bigshareCompanyIdCache.entries());
-    entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-
-    const entriesToRemove = entries.slice(0, bigshareCompanyIdCache.size - MAX_CACHE_SIZE);
-    for (const [key] of entriesToRemove) {
-      bigshareCompanyIdCache.delete(key);
-    }
-  }
-}
-
-// BigShare company ID lookup function
-async function getBigshareCompanyId(ipoName: string): Promise<string | null> {
-  const cacheKey = ipoName.toLowerCase().trim();
-
-  // Check cache first
-  const cached = bigshareCompanyIdCache.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
-    console.log(`Using cached BigShare company ID for ${ipoName}: ${cached.id}`);
-    return cached.id;
-  }
-
-  const urlsToTry = [
-    'https://ipo.bigshareonline.com/',
-    'https://ipo.bigshareonline.com/Default.aspx'
-  ];
-
-  for (const url of urlsToTry) {
-    try {
-      console.log(`Trying to scrape BigShare company ID from: ${url}`);
-      const response = await apiClient.get(url);
-      const $ = cheerio.load(response.data);
-
-      // Look for company dropdown options with various selectors
-      const selectors = [
-        'select#ddlCompany option',
-        'select[name="ddlCompany"] option',
-        'select[id*="Company"] option',
-        'select[name*="Company"] option',
-        'select option[value]'
-      ];
-
-      let companyId: string | null = null;
-
-      for (const selector of selectors) {
-        const companyOptions = $(selector);
-        if (companyOptions.length > 0) {
-          console.log(`Found ${companyOptions.length} company options using selector: ${selector}`);
-
-          companyOptions.each((_index, element): boolean | void => {
-            const optionText = $(element).text().trim().toLowerCase();
-            const optionValue = $(element).val() as string;
-            const searchName = ipoName.toLowerCase().trim();
-
-            // Skip empty values or default options
-            if (!optionValue || optionValue === '0' || optionValue === '' || optionText.includes('select')) {
-              return true; // continue
-            }
-
-            console.log(`Checking option: "${optionText}" (value: ${optionValue}) against search: "${searchName}"`);
-
-            // Try exact match first
-            if (optionText === searchName) {
-              companyId = optionValue;
-              console.log(`✓ Exact match found: ${optionText} -> ${optionValue}`);
-              return false; // break the loop
-            }
-
-            // Try partial match (company name contains IPO name or vice versa)
-            if (optionText.includes(searchName) || searchName.includes(optionText)) {
-              companyId = optionValue;
-              console.log(`✓ Partial match found: ${optionText} -> ${optionValue}`);
-              return false; // break the loop
-            }
-
-            // Try fuzzy matching by removing common words and checking similarity
-            const cleanOptionText = optionText.replace(/\b(limited|ltd|pvt|private|company|corp|corporation|inc|incorporated)\b/g, '').trim();
-            const cleanSearchName = searchName.replace(/\b(limited|ltd|pvt|private|company|corp|corporation|inc|incorporated)\b/g, '').trim();
-
-            if (cleanOptionText.includes(cleanSearchName) || cleanSearchName.includes(cleanOptionText)) {
-              companyId = optionValue;
-              console.log(`✓ Fuzzy match found: ${cleanOptionText} (from: ${optionText}) -> ${optionValue}`);
-              return false; // break the loop
-            }
-
-            // Try word-by-word matching for better accuracy
-            const optionWords = cleanOptionText.split(/\s+/).filter(word => word.length > 2);
-            const searchWords = cleanSearchName.split(/\s+/).filter(word => word.length > 2);
-
-            let matchingWords = 0;
-            for (const searchWord of searchWords) {
-              for (const optionWord of optionWords) {
-                if (optionWord.includes(searchWord) || searchWord.includes(optionWord)) {
-                  matchingWords++;
-                  break;
-                }
-              }
-            }
-
-            // If more than 50% of words match, consider it a match
-            if (searchWords.length > 0 && matchingWords / searchWords.length >= 0.5) {
-              companyId = optionValue;
-              console.log(`✓ Word-based match found: ${matchingWords}/${searchWords.length} words matched for ${optionText} -> ${optionValue}`);
-              return false; // break the loop
-            }
-          });
-
-          if (companyId) {
-            // Cache the successful result
-            bigshareCompanyIdCache.set(cacheKey, { id: companyId, timestamp: Date.now() });
-            cleanupCache(); // Clean up cache after adding new entry
-            return companyId;
-          }
-        }
-      }
-
-      if (companyId) {
-        // Cache the successful result
-        bigshareCompanyIdCache.set(cacheKey, { id: companyId, timestamp: Date.now() });
-        return companyId;
-      }
-    } catch (error: any) {
-      console.error(`Error fetching BigShare company ID from ${url}:`, error.message);
-      continue; // try next URL
-    }
-  }
-
-  console.log(`No company ID found for IPO name: ${ipoName}`);
-
-  // Cache the result (even if null) to avoid repeated failed attempts
-  bigshareCompanyIdCache.set(cacheKey, { id: null, timestamp: Date.now() });
-  cleanupCache(); // Clean up cache after adding new entry
-  return null;
-}
-
-// MUFG company ID lookup function
-async function getMufgCompanyId(ipoName: string): Promise<string | null> {
-  const cacheKey = ipoName.toLowerCase().trim();
-
-  // Check cache first
-  const cached = mufgCompanyIdCache.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
-    console.log(`Using cached MUFG company ID for ${ipoName}: ${cached.id}`);
-    return cached.id;
-  }
-
-  try {
-    console.log(`Fetching MUFG company list for: ${ipoName}`);
-    const companiesUrl = 'https://in.mpms.mufg.com/Initial_Offer/IPO.aspx/GetDetails';
-
-    const response = await apiClient.post(companiesUrl, {}, {
-      headers: {
-        'Content-Type': 'application/json; charset=utf-8',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
-
-    if (response.data && response.data.d) {
-      // Decode HTML entities in the XML response
-      let xmlData = response.data.d;
-      // Handle both escaped and unescaped HTML entities
-      xmlData = xmlData.replace(/\\u003c/g, '<').replace(/\\u003e/g, '>');
-      xmlData = xmlData.replace(/&lt;/g, '<').replace(/&gt;/g, '>');
-      xmlData = xmlData.replace(/&amp;/g, '&');
-
-      console.log('Decoded XML data sample:', xmlData.substring(0, 500));
-
-      const $ = cheerio.load(xmlData, { xmlMode: true });
-
-      // Look for company in the XML response
-      const tables = $('Table');
-      let companyId: string | null = null;
-
-      console.log(`Searching for "${ipoName}" in ${tables.length} companies`);
-
-      for (let i = 0; i < tables.length; i++) {
-        const element = tables.eq(i);
-        const companyName = element.find('companyname').text();
-        const companyIdText = element.find('company_id').text();
-        const searchName = ipoName.toLowerCase().trim();
-        const companyNameLower = companyName.toLowerCase().trim();
-
-        console.log(`Checking company: "${companyName}" (ID: ${companyIdText})`);
-
-        // Skip empty entries
-        if (!companyName || !companyIdText) continue;
-
-        // Try different matching strategies similar to BigShare
-        const normalizedSearch = searchName.replace(/[^a-z0-9]/g, '');
-        const normalizedCompany = companyNameLower.replace(/[^a-z0-9]/g, '');
-
-        if (companyNameLower.includes(searchName) ||
-            searchName.includes(companyNameLower) ||
-            normalizedCompany.includes(normalizedSearch) ||
-            normalizedSearch.includes(normalizedCompany) ||
-            companyName.toLowerCase().indexOf(searchName) !== -1) {
-          companyId = companyIdText;
-          console.log(`Found MUFG company ID for "${ipoName}": ${companyId} (matched with "${companyName}")`);
-          break;
-        }
-      }
-
-      if (companyId) {
-        // Cache the successful result
-        mufgCompanyIdCache.set(cacheKey, { id: companyId, timestamp: Date.now() });
-        cleanupMufgCache();
-        return companyId;
-      }
-    }
-  } catch (error: any) {
-    console.error(`Error fetching MUFG company ID:`, error.message);
-  }
-
-  console.log(`No MUFG company ID found for IPO name: ${ipoName}`);
-
-  // Cache the result (even if null) to avoid repeated failed attempts
-  mufgCompanyIdCache.set(cacheKey, { id: null, timestamp: Date.now() });
-  cleanupMufgCache();
-  return null;
-}
-
-// Clean up MUFG cache
-function cleanupMufgCache(): void {
-  const now = Date.now();
-
-  // Remove expired entries
-  for (const [key, value] of mufgCompanyIdCache.entries()) {
-    if (now - value.timestamp > CACHE_DURATION) {
-      mufgCompanyIdCache.delete(key);
-    }
-  }
-
-  // Enforce size limit by removing oldest entries
-  if (mufgCompanyIdCache.size > MAX_CACHE_SIZE) {
-    const entries = Array.from(mufgCompanyIdCache.entries());
-    entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-
-    const entriesToRemove = entries.slice(0, mufgCompanyIdCache.size - MAX_CACHE_SIZE);
-    for (const [key] of entriesToRemove) {
-      mufgCompanyIdCache.delete(key);
+  const cacheable = await resultCacheKey(adapter, target, signal);
+  // Debug output wants the registrar's raw body, which is never cached
+  if (cacheable && !options.bypassCache && !options.includeRaw) {
+    const cached = await getCachedResult(cacheable.key);
+    if (cached) {
+      return withOverride(cached);
     }
   }
-}
-
-// Purva company ID lookup function
-async function getPurvaCompanyId(ipoName: string): Promise<string | null> {
-  const cacheKey = ipoName.toLowerCase().trim();
-
-  // Check cache first
-  const cached = purvaCompanyIdCache.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
-    console.log(`Using cached Purva company ID for ${ipoName}: ${cached.id}`);
-    return cached.id;
-  }
-
-  try {
-    console.log(`Fetching Purva company list for: ${ipoName}`);
-    const url = 'https://www.purvashare.com/investor-service/ipo-query';
-
-    const response = await apiClient.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
-
-    const $ = cheerio.load(response.data);
-
-    // Look for company dropdown options
-    const companyOptions = $('select[name="company_id"] option');
-
-    for (let i = 0; i < companyOptions.length; i++) {
-      const option = companyOptions.eq(i);
-      const optionText = option.text().trim();
-      const optionValue = option.attr('value');
-
-      if (optionValue && optionText.toLowerCase().includes(ipoName.toLowerCase())) {
-        console.log(`Found Purva company ID for ${ipoName}: ${optionValue} (${optionText})`);
-
-        // Cache the result
-        purvaCompanyIdCache.set(cacheKey, { id: optionValue, timestamp: Date.now() });
-        cleanupPurvaCache(); // Clean up cache after adding new entry
-        return optionValue;
-      }
-    }
 
-  } catch (error) {
-    console.error(`Error fetching Purva company list: ${error}`);
+  const { result, attempts } = countAttempts(() => adapter.check(cacheable?.request ?? target, signal));
+  const response = upstreamUnavailableStatus(await result);
+  if (cacheable && response.captcha) {
+    setCaptchaCacheKey(response.captcha.token, cacheable.key);
   }
-
-  console.log(`No Purva company ID found for IPO name: ${ipoName}`);
-
-  // Cache the result (even if null) to avoid repeated failed attempts
-  purvaCompanyIdCache.set(cacheKey, { id: null, timestamp: Date.now() });
-  cleanupPurvaCache(); // Clean up cache after adding new entry
-  return null;
+  // Attempts describe this check only, so they are left out of the cached result
+  return { ...withOverride(await cacheResult(cacheable?.key ?? null, protectResponse(response, options))), attempts };
 }
 
-// Cleanup function for Purva cache
-function cleanupPurvaCache(): void {
-  const now = Date.now();
-
-  // Remove expired entries
-  for (const [key, value] of purvaCompanyIdCache.entries()) {
-    if (now - value.timestamp > CACHE_DURATION) {
-      purvaCompanyIdCache.delete(key);
-    }
-  }
-
-  // Enforce size limit by removing oldest entries
-  if (purvaCompanyIdCache.size > MAX_CACHE_SIZE) {
-    const entries = Array.from(purvaCompanyIdCache.entries());
-    entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-
-    const entriesToRemove = entries.slice(0, purvaCompanyIdCache.size - MAX_CACHE_SIZE);
-    for (const [key] of entriesToRemove) {
-      purvaCompanyIdCache.delete(key);
-    }
-  }
+// Checkers report a request their registrar's circuit breaker refused as a plain error; give it
+// its own status so callers can tell "down, not asked" from a failed check
+function upstreamUnavailableStatus(response: IPOAllotmentResponse): IPOAllotmentResponse {
+  return response.status === 'error' && isUpstreamUnavailable(response.error)
+    ? { ...response, status: 'upstream_unavailable' }
+    : response;
 }
 
-// Skyline company ID lookup function
-async function getSkylineCompanyId(ipoName: string): Promise<string | null> {
-  const cacheKey = ipoName.toLowerCase().trim();
-
-  // Check cache first
-  const cached = skylineCompanyIdCache.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
-    console.log(`Using cached Skyline company ID for ${ipoName}: ${cached.id}`);
-    return cached.id;
-  }
-
-  try {
-    console.log(`Fetching Skyline company list for: ${ipoName}`);
-    const url = 'https://www.skylinerta.com/ipo.php';
-
-    const response = await apiClient.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
-
-    const $ = cheerio.load(response.data);
-
-    // Look for company dropdown options - based on the HTML structure seen
-    const companyOptions = $('select option');
-
-    console.log(`Found ${companyOptions.length} total options in Skyline dropdown`);
-
-    for (let i = 0; i < companyOptions.length; i++) {
-      const option = companyOptions.eq(i);
-      const optionText = option.text().trim();
-      const optionValue = option.attr('value');
-
-      // Skip empty values or default options
-      if (!optionValue || optionValue === '' || optionText.includes('Select Company')) {
-        continue;
-      }
-
-      console.log(`Checking Skyline option: "${optionText}" (value: ${optionValue})`);
-
-      const searchName = ipoName.toLowerCase().trim();
-      const companyNameLower = optionText.toLowerCase().trim();
-
-      // Try different matching strategies
-      if (companyNameLower.includes(searchName) ||
-          searchName.includes(companyNameLower) ||
-          companyNameLower.replace(/\s+/g, '').includes(searchName.replace(/\s+/g, '')) ||
-          searchName.replace(/\s+/g, '').includes(companyNameLower.replace(/\s+/g, ''))) {
-
-        console.log(`Found Skyline company ID for ${ipoName}: ${optionValue} (${optionText})`);
-
-        // Cache the result
-        skylineCompanyIdCache.set(cacheKey, { id: optionValue, timestamp: Date.now() });
-        cleanupSkylineCache();
-        return optionValue;
-      }
-    }
-
-  } catch (error) {
-    console.error(`Error fetching Skyline company list: ${error}`);
-  }
-
-  console.log(`No Skyline company ID found for IPO name: ${ipoName}`);
-
-  // Cache the result (even if null) to avoid repeated failed attempts
-  skylineCompanyIdCache.set(cacheKey, { id: null, timestamp: Date.now() });
-  cleanupSkylineCache();
-  return null;
-}
-
-// Cleanup function for Skyline cache
-function cleanupSkylineCache(): void {
-  const now = Date.now();
-
-  // Remove expired entries
-  for (const [key, value] of skylineCompanyIdCache.entries()) {
-    if (now - value.timestamp > CACHE_DURATION) {
-      skylineCompanyIdCache.delete(key);
-    }
-  }
-
-  // Enforce size limit by removing oldest entries
-  if (skylineCompanyIdCache.size > MAX_CACHE_SIZE) {
-    const entries = Array.from(skylineCompanyIdCache.entries());
-    entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-
-    const entriesToRemove = entries.slice(0, skylineCompanyIdCache.size - MAX_CACHE_SIZE);
-    for (const [key] of entriesToRemove) {
-      skylineCompanyIdCache.delete(key);
-    }
-  }
-}
-
-// Bigshare checker
-async function checkBigshare({ panNo, ipoName }: IPOAllotmentRequest): Promise<IPOAllotmentResponse> {
-  const config = registrarConfigs.bigshare;
-  const url = `${config.baseUrl}${config.endpoint}`;
-
-  // First, try to get the company ID by scraping
-  let companyCode = ipoName;
-
-  // Check if ipoName is already a numeric ID
-  if (!/^\d+$/.test(ipoName)) {
-    const scrapedCompanyId = await getBigshareCompanyId(ipoName);
-    if (scrapedCompanyId) {
-      companyCode = scrapedCompanyId;
-    }
-  }
-
-  const body = {
-    Applicationno: '',
-    Company: companyCode, // Use scraped company code or original if numeric
-    SelectionType: 'PN',
-    PanNo: panNo,
-    txtcsdl: '',
-    txtDPID: '',
-    txtClId: '',
-    ddlType: '0',
-    lang: 'en'
-  };
-
-  try {
-    const response: AxiosResponse = await apiClient.post(url, body, {
-      headers: { 'Content-Type': 'application/json' }
-    });
-
-    let parsed;
-    try {
-      parsed = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
-    } catch {
-      parsed = response.data;
-    }
-
-    // Parse BigShare response to determine allotment status
-    let allotmentStatus = 'unknown';
-    let allotmentDetails = null;
-
-    if (parsed && parsed.d) {
-      const data = parsed.d;
-
-      // Check if there's any application data
-      if (data.APPLICATION_NO && data.APPLICATION_NO !== '' && data.DPID !== 'No data found') {
-        // Application found, check allotment status
-        const allotedValue = data.ALLOTED || '';
-
-        if (allotedValue.toLowerCase().includes('allot') && !allotedValue.toLowerCase().includes('non')) {
-          allotmentStatus = 'Allotted';
-        } else if (allotedValue.toLowerCase().includes('non-allot') || allotedValue.toLowerCase().includes('not allot')) {
-          allotmentStatus = 'Not Allotted';
-        } else {
-          allotmentStatus = 'Pending'; // Status unclear
-        }
-
-        allotmentDetails = {
-          applicationNumber: data.APPLICATION_NO,
-          applicantName: data.Name,
-          dpId: data.DPID,
-          sharesApplied: data.APPLIED,
-          allotmentStatus: allotedValue,
-          status: allotmentStatus as 'allotted' | 'not allotted' | 'no record found'
-        };
-      } else {
-        // No application data found
-        allotmentStatus = 'No Record Found';
-      }
-    }
-
-    return {
-      success: true,
-      registrar: 'bigshare',
-      status: allotmentStatus,
-      allotmentDetails: allotmentDetails || undefined,
-      raw: parsed, // Keep raw data for debugging if needed
-      details: companyCode !== ipoName ? `Used company ID: ${companyCode}` : undefined
-    };
-  } catch (error: any) {
-    return {
+// Run one check, giving up when the deadline passes. Checkers swallow most errors,
+// so the check is raced against the abort to enforce the deadline.
+async function checkWithDeadline(
+  adapter: RegistrarAdapter,
+  request: IPOAllotmentRequest,
+  timeoutMs: number,
+  options: AllotmentCheckOptions
+): Promise<IPOAllotmentResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const aborted = new Promise<IPOAllotmentResponse>((resolve) => {
+    controller.signal.addEventListener('abort', () => resolve({
       success: false,
-      registrar: 'bigshare',
+      registrar: adapter.key,
       raw: null,
-      status: 'error',
-      error: error.message
-    };
-  }
-}
+      status: 'timeout',
+      error: 'Registrar check did not finish within the deadline'
+    }));
+  });
+  const check = checkThroughCache(adapter, request, options, controller.signal).catch((error: any): IPOAllotmentResponse => ({
+    success: false,
+    registrar: adapter.key,
+    raw: null,
+    status: isUpstreamUnavailable(error) ? 'upstream_unavailable' : 'error',
+    error: error.message,
+    transient: isTransientFailure(error)
+  }));
 
-// KFintech checker - Updated for new API endpoint
-async function checkKfintech({ panNo, ipoName }: IPOAllotmentRequest): Promise<IPOAllotmentResponse> {
   try {
-    console.log(`Checking KFintech IPO allotment for PAN: ${panNo}, IPO: ${ipoName}`);
-
-    // KFintech API endpoint discovered from browser network analysis
-    const apiUrl = 'https://0uz601ms56.execute-api.ap-south-1.amazonaws.com/prod/api/query';
-
-    const response = await apiClient.get(apiUrl, {
-      params: {
-        type: 'pan'
-      },
-      headers: {
-        'Accept': 'application/json, text/plain, */*',
-        'Origin': 'https://ipostatus.kfintech.com',
-        'Referer': 'https://ipostatus.kfintech.com/',
-        'client_id': '06917228970',
-        'reqparam': panNo,
-        'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
-      }
-    });
-
-    console.log('KFintech API Response:', response.status, response.data);
-
-    // Parse the response
-    let allotmentStatus = 'No Record Found';
-    let allotmentDetails: any = undefined;
-
-    if (response.data && typeof response.data === 'object') {
-      // Check if there's allotment data
-      if (response.data.status === 'success' || response.data.data) {
-        const data = response.data.data || response.data;
-
-        // Check for allotment information
-        if (data.allotted && data.allotted > 0) {
-          allotmentStatus = 'Allotted';
-          allotmentDetails = {
-            sharesAllotted: data.allotted,
-            applicationNumber: data.applicationNumber || '',
-            applicantName: data.applicantName || '',
-            refundAmount: data.refundAmount || '0',
-            status: allotmentStatus
-          };
-        } else if (data.allotted === 0 || data.status === 'not_allotted') {
-          allotmentStatus = 'Not Allotted';
-          allotmentDetails = {
-            sharesAllotted: 0,
-            applicationNumber: data.applicationNumber || '',
-            applicantName: data.applicantName || '',
-            refundAmount: data.refundAmount || '0',
-            status: allotmentStatus
-          };
-        }
-      } else if (response.data.error) {
-        // Handle error responses
-        if (response.data.error.toLowerCase().includes('not found') ||
-            response.data.error.toLowerCase().includes('no record')) {
-          allotmentStatus = 'No Record Found';
-        }
-      }
-    }
-
-    return {
-      success: true,
-      registrar: 'kfintech',
-      raw: response.data,
-      status: allotmentStatus,
-      details: allotmentDetails
-    };
-
-  } catch (error: any) {
-    console.error('KFintech API Error:', error.message);
-
-    // Handle specific error cases
-    if (error.response?.status === 404) {
-      return {
-        success: true,
-        registrar: 'kfintech',
-        raw: error.response.data,
-        status: 'No Record Found',
-        details: 'No IPO allotment record found for the provided PAN number.'
-      };
-    }
-
-    return {
-      success: false,
-      registrar: 'kfintech',
-      raw: null,
-      status: 'Error',
-      error: error.message
-    };
+    return protectResponse(await Promise.race([check, aborted]), options);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
-// Link Intime checker - Now same as MUFG (Link Intime is now MUFG Intime India Private Limited)
-async function checkLinkIntime({ panNo, ipoName }: IPOAllotmentRequest): Promise<IPOAllotmentResponse> {
-  // Since Link Intime is now MUFG Intime India Private Limited, use MUFG logic
-  try {
-    console.log(`Checking Link Intime (MUFG) IPO allotment for PAN: ${panNo}, IPO: ${ipoName}`);
-
-    // Get company ID using the MUFG lookup function
-    let companyId = await getMufgCompanyId(ipoName);
-
-    // If no company ID found and ipoName is numeric, use it directly
-    if (!companyId && /^\d+$/.test(ipoName)) {
-      companyId = ipoName;
-      console.log(`Using provided numeric IPO name as company ID: ${companyId}`);
-    }
-
-    // If still no company ID found, return error
-    if (!companyId) {
+export class IPOAllotmentService {
+  // Check specific registrar
+  static async checkRegistrar(
+    registrar: RegistrarType, 
+    request: IPOAllotmentRequest,
+    options: AllotmentCheckOptions = {}
+  ): Promise<IPOAllotmentResponse> {
+    const adapter = getRegistrar(registrar);
+    if (!adapter) {
       return {
         success: false,
-        registrar: 'linkintime',
+        registrar,
         raw: null,
         status: 'error',
-        error: `No company found for IPO name: ${ipoName}`
+        error: `Unknown registrar: ${registrar}`
       };
     }
 
-    // Use MUFG base URL since they are the same company now
-    const mufgBaseUrl = 'https://in.mpms.mufg.com';
-
-    // Generate token (simplified version)
-    const tokenUrl = `${mufgBaseUrl}/Initial_Offer/IPO.aspx/generateToken`;
-    let token = '';
-
-    try {
-      const tokenResponse = await apiClient.post(tokenUrl, {}, {
-        headers: { 'Content-Type': 'application/json; charset=utf-8' }
-      });
-      token = tokenResponse.data.d || '';
-    } catch (error) {
-      console.log('Could not generate token, proceeding without it');
+    const mode = searchModeOf(request);
+    if (!supportsSearchMode(adapter, mode)) {
+      return unsupportedSearchResponse(adapter, mode);
     }
-
-    // Search for allotment status using MUFG endpoint
-    const searchUrl = `${mufgBaseUrl}/Initial_Offer/IPO.aspx/SearchOnPan`;
-    const searchBody = {
-      clientid: companyId,
-      PAN: panNo,
-      IFSC: '',
-      CHKVAL: '1', // 1 for PAN search
-      token: token
-    };
-
-    const response = await apiClient.post(searchUrl, JSON.stringify(searchBody), {
-      headers: {
-        'Content-Type': 'application/json; charset=utf-8',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
-
-    let parsed;
-    try {
-      parsed = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
-    } catch {
-      parsed = response.data;
-    }
-
-    // Parse MUFG response to determine allotment status (same logic as MUFG)
-    let allotmentStatus = 'unknown';
-    let allotmentDetails = null;
-
-    if (parsed && parsed.d) {
-      const $ = cheerio.load(parsed.d);
-
-      // Look for application data in Table elements
-      const applications = $('Table');
-
-      if (applications.length > 0) {
-        // Take the first application result
-        const firstApp = applications.eq(0);
-        const allotted = firstApp.find('ALLOT').text();
-        const sharesApplied = firstApp.find('SHARES').text();
-        const applicantName = firstApp.find('NAME1').text();
-        const applicationCategory = firstApp.find('PEMNDG').text();
-        const dpClientId = firstApp.find('DPCLITID').text();
-
-        // Determine allotment status
-        if (allotted && parseInt(allotted) > 0) {
-          allotmentStatus = 'Allotted';
-        } else if (allotted === '0' || allotted === '') {
-          allotmentStatus = 'Not Allotted';
-        } else {
-          allotmentStatus = 'Pending';
-        }
-
-        allotmentDetails = {
-          applicationNumber: dpClientId || applicationCategory,
-          applicantName: applicantName,
-          dpId: dpClientId,
-          sharesApplied: sharesApplied,
-          allotmentStatus: allotted === '0' ? 'Not Allotted' : `${allotted} shares allotted`,
-          status: allotmentStatus as 'allotted' | 'not allotted' | 'no record found'
-        };
-      } else {
-        // Check for error messages in Table1
-        const errorMessages = $('Table1');
-        if (errorMessages.length > 0) {
-          const errorMsg = errorMessages.find('Msg').text();
-          if (errorMsg) {
-            allotmentStatus = 'No Record Found';
-          }
-        } else {
-          allotmentStatus = 'No Record Found';
-        }
-      }
-    }
-
-    return {
-      success: true,
-      registrar: 'linkintime',
-      status: allotmentStatus,
-      allotmentDetails: allotmentDetails || undefined,
-      raw: parsed,
-      details: companyId !== ipoName ? `Used company ID: ${companyId} (via MUFG system)` : 'Using MUFG system'
-    };
-
-  } catch (error: any) {
-    return {
-      success: false,
-      registrar: 'linkintime',
-      raw: null,
-      status: 'error',
-      error: error.message
-    };
+    
+    return checkThroughCache(adapter, request, options);
   }
-}
-
-// MUFG checker
-async function checkMufg({ panNo, ipoName }: IPOAllotmentRequest): Promise<IPOAllotmentResponse> {
-  const config = registrarConfigs.mufg;
-
-  try {
-    // Get company ID using the lookup function (similar to BigShare)
-    let companyId = await getMufgCompanyId(ipoName);
 
-    // If no company ID found and ipoName is numeric, use it directly
-    if (!companyId && /^\d+$/.test(ipoName)) {
-      companyId = ipoName;
-      console.log(`Using provided numeric IPO name as company ID: ${companyId}`);
+  // Finish a check that stopped at a captcha. Returns null when the token is unknown or expired.
+  static async submitCaptcha(
+    token: string,
+    answer: string,
+    options: AllotmentCheckOptions = {}
+  ): Promise<IPOAllotmentResponse | null> {
+    const session = takeCaptchaSession(token);
+    if (!session) {
+      return null;
     }
 
-    // If still no company ID found, return error
-    if (!companyId) {
+    const adapter = getRegistrar(session.registrar);
+    if (!adapter?.submitCaptcha) {
       return {
         success: false,
-        registrar: 'mufg',
+        registrar: session.registrar,
         raw: null,
         status: 'error',
-        error: `No company found for IPO name: ${ipoName}`
+        error: `${session.registrar} does not accept captcha answers`
       };
     }
 
-    // Generate token (simplified version)
-    const tokenUrl = `${config.baseUrl}/Initial_Offer/IPO.aspx/generateToken`;
-    let token = '';
-
-    try {
-      const tokenResponse = await apiClient.post(tokenUrl, {}, {
-        headers: { 'Content-Type': 'application/json; charset=utf-8' }
-      });
-      token = tokenResponse.data.d || '';
-    } catch (error) {
-      console.log('Could not generate token, proceeding without it');
-    }
-
-    // Search for allotment status
-    const searchUrl = `${config.baseUrl}${config.endpoint}`;
-    const searchBody = {
-      clientid: companyId,
-      PAN: panNo,
-      IFSC: '',
-      CHKVAL: '1', // 1 for PAN search
-      token: token
-    };
-
-    const response = await apiClient.post(searchUrl, JSON.stringify(searchBody), {
-      headers: {
-        'Content-Type': 'application/json; charset=utf-8',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      }
-    });
-
-    let parsed;
-    try {
-      parsed = typeof response.data === 'string' ? JSON.parse(response.data) : response.data;
-    } catch {
-      parsed = response.data;
-    }
-
-    // Parse MUFG response to determine allotment status
-    let allotmentStatus = 'unknown';
-    let allotmentDetails = null;
-
-    if (parsed && parsed.d) {
-      const $ = cheerio.load(parsed.d);
-
-      // Look for application data in Table elements
-      const applications = $('Table');
-
-      if (applications.length > 0) {
-        // Take the first application result
-        const firstApp = applications.eq(0);
-        const allotted = firstApp.find('ALLOT').text();
-        const sharesApplied = firstApp.find('SHARES').text();
-        const applicantName = firstApp.find('NAME1').text();
-        const applicationCategory = firstApp.find('PEMNDG').text();
-        const dpClientId = firstApp.find('DPCLITID').text();
-
-        // Determine allotment status
-        if (allotted && parseInt(allotted) > 0) {
-          allotmentStatus = 'Allotted';
-        } else if (allotted === '0' || allotted === '') {
-          allotmentStatus = 'Not Allotted';
-        } else {
-          allotmentStatus = 'Pending';
-        }
-
-        allotmentDetails = {
-          applicationNumber: dpClientId || applicationCategory,
-          applicantName: applicantName,
-          dpId: dpClientId,
-          sharesApplied: sharesApplied,
-          allotmentStatus: allotted === '0' ? 'Not Allotted' : `${allotted} shares allotted`,
-          status: allotmentStatus as 'allotted' | 'not allotted' | 'no record found'
-        };
-      } else {
-        // Check for error messages in Table1
-        const errorMessages = $('Table1');
-        if (errorMessages.length > 0) {
-          const errorMsg = errorMessages.find('Msg').text();
-          if (errorMsg) {
-            allotmentStatus = 'No Record Found';
-          }
-        } else {
-          allotmentStatus = 'No Record Found';
-        }
-      }
+    // Solving a captcha is the costliest way to get a result, so keep it like any other check's
+    const result = protectResponse(await adapter.submitCaptcha(session.request, session.state, answer), options);
+    // A wrong answer comes back with a new captcha, whose answer belongs under the same key
+    if (result.captcha && session.cacheKey) {
+      setCaptchaCacheKey(result.captcha.token, session.cacheKey);
     }
-
-    return {
-      success: true,
-      registrar: 'mufg',
-      status: allotmentStatus,
-      allotmentDetails: allotmentDetails || undefined,
-      raw: parsed,
-      details: companyId !== ipoName ? `Used company ID: ${companyId}` : undefined
-    };
-
-  } catch (error: any) {
-    return {
-      success: false,
-      registrar: 'mufg',
-      raw: null,
-      status: 'error',
-      error: error.message
-    };
+    return cacheResult(session.cacheKey ?? null, result);
   }
-}
 
-// Purva checker
-async function checkPurva({ panNo, ipoName }: IPOAllotmentRequest): Promise<IPOAllotmentResponse> {
-  const config = registrarConfigs.purva;
+  // Check all registrars concurrently with per-registrar and total deadlines
+  static async checkAllRegistrars(
+    request: IPOAllotmentRequest,
+    options: CheckAllRegistrarsOptions = {}
+  ): Promise<CheckAllRegistrarsResult> {
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CHECK_ALL_CONCURRENCY);
+    const registrarTimeoutMs = options.registrarTimeoutMs ?? DEFAULT_REGISTRAR_TIMEOUT;
+    const totalTimeoutMs = options.totalTimeoutMs ?? DEFAULT_CHECK_ALL_TIMEOUT;
+    const startedAt = Date.now();
 
-  try {
-    // Purva Sharegistry IPO allotment check URL
-    const url = `${config.baseUrl}${config.endpoint}`;
+    const registrars = listRegistrarKeys();
+    const results = new Map<RegistrarType, IPOAllotmentResponse>();
+    const outcomes = new Map<RegistrarType, RegistrarCheckOutcome>();
 
-    // First, get the page to extract CSRF token
-    const initialResponse = await apiClient.get(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5'
-      }
-    });
+    // Aborted when the total deadline passes or a definitive result makes the rest redundant
+    const runController = new AbortController();
+    let stopReason: 'timeout' | 'definitive' | null = null;
+    let definitiveRegistrar: RegistrarType | undefined;
 
-    // Extract CSRF token from the initial page
-    const $ = cheerio.load(initialResponse.data);
-    const csrfToken = $('input[name="csrfmiddlewaretoken"]').val() as string;
+    const totalTimer = setTimeout(() => {
+      if (!stopReason) {
+        stopReason = 'timeout';
+        runController.abort();
+      }
+    }, totalTimeoutMs);
 
-    if (!csrfToken) {
-      return {
+    const recordAborted = (registrar: RegistrarType, timedOut: boolean): void => {
+      outcomes.set(registrar, timedOut ? 'timed_out' : 'cancelled');
+      results.set(registrar, {
         success: false,
-        registrar: 'purva',
+        registrar,
         raw: null,
-        status: 'error',
-        error: 'Could not extract CSRF token from Purva website'
-      };
-    }
-
-    // Determine company_id - if ipoName is numeric, use it directly, otherwise try to find it
-    let companyId = ipoName;
-    if (!/^\d+$/.test(ipoName)) {
-      // Try to get company ID using the lookup function
-      const scrapedCompanyId = await getPurvaCompanyId(ipoName);
-      if (scrapedCompanyId) {
-        companyId = scrapedCompanyId;
-      } else {
-        // Fallback to a default company ID if lookup fails
-        companyId = '78'; // Default fallback
-      }
-    }
+        status: timedOut ? 'timeout' : 'cancelled',
+        error: timedOut
+          ? 'Registrar check did not finish within the deadline'
+          : `Cancelled after ${definitiveRegistrar} returned a definitive result`
+      });
+    };
 
-    // Create form data for Purva with proper structure
-    const formData = new URLSearchParams();
-    formData.append('csrfmiddlewaretoken', csrfToken);
-    formData.append('company_id', companyId);
-    formData.append('applicationNumber', ''); // Empty as per your example
-    formData.append('panNumber', panNo);
-    formData.append('submit', 'Search');
+    const mode = searchModeOf(request);
 
-    const response = await apiClient.post(url, formData, {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Referer': url,
-        'Cookie': initialResponse.headers['set-cookie']?.join('; ') || ''
+    const runOne = async (registrar: RegistrarType): Promise<void> => {
+      const adapter = getRegistrar(registrar)!;
+      if (!supportsSearchMode(adapter, mode)) {
+        outcomes.set(registrar, 'skipped');
+        results.set(registrar, unsupportedSearchResponse(adapter, mode));
+        return;
       }
-    });
 
-    const html = response.data;
-
-
-
-    // Parse Purva response using the correct logic based on table structure
-    // Purva always returns a table, but the number of rows indicates the status:
-    // - 1 row (header only) = No Record Found
-    // - 2+ rows (header + data) = Record found, check allotment status
-
-    const $response = cheerio.load(html);
-    const table = $response('table').first();
-
-    if (table.length === 0) {
-      // No table found at all - this shouldn't happen with Purva
-      return {
-        success: true,
-        registrar: 'purva',
-        raw: html,
-        status: 'No Record Found'
-      };
-    }
-
-    const rows = table.find('tr');
-    const rowCount = rows.length;
-
-    console.log(`Purva table analysis: ${rowCount} rows found`);
-
-    if (rowCount <= 1) {
-      // Only header row present = No Record Found
-      return {
-        success: true,
-        registrar: 'purva',
-        raw: html,
-        status: 'No Record Found'
-      };
-    }
-
-    // There are data rows present, check for allotment status
-    // Look at the data rows (skip header row)
-    const dataRows = rows.slice(1);
-
-    let hasAllottedShares = false;
-    let totalAllottedShares = 0;
-
-    dataRows.each((index, row) => {
-      const $row = $response(row);
-      const cells = $row.find('td');
-
-      // Look for shares allotted column (usually the 6th column based on header structure)
-      // Header: Name | Application Number | Pan No | DPID - Client Id | Shares Applied | Shares Allotted | Refund Amount
-      if (cells.length >= 6) {
-        const sharesAllottedText = $response(cells[5]).text().trim(); // 6th column (0-indexed)
-        const sharesAllotted = parseInt(sharesAllottedText) || 0;
-
-        console.log(`Row ${index + 1}: Shares Allotted = "${sharesAllottedText}" (parsed: ${sharesAllotted})`);
-
-        if (sharesAllotted > 0) {
-          hasAllottedShares = true;
-          totalAllottedShares += sharesAllotted;
-        }
+      if (runController.signal.aborted) {
+        recordAborted(registrar, stopReason === 'timeout');
+        return;
       }
-    });
-
-    if (hasAllottedShares && totalAllottedShares > 0) {
-      return {
-        success: true,
-        registrar: 'purva',
-        raw: html,
-        status: 'Allotted'
-      };
-    } else {
-      // Data rows exist but no shares allotted
-      return {
-        success: true,
-        registrar: 'purva',
-        raw: html,
-        status: 'Not Allotted'
-      };
-    }
-
-  } catch (error: any) {
-    return {
-      success: false,
-      registrar: 'purva',
-      raw: null,
-      status: 'error',
-      error: error.message
-    };
-  }
-}
-
-
-
-// Cameo checker
-async function checkCameo({ panNo, ipoName }: IPOAllotmentRequest): Promise<IPOAllotmentResponse> {
-  // Try multiple Cameo endpoints
-  const endpoints = [
-    'https://ipostatus1.cameoindia.com/',
-    'https://ipostatus2.cameoindia.com/',
-    'https://ipostatus3.cameoindia.com/'
-  ];
-
-  for (const endpoint of endpoints) {
-    try {
-      console.log(`Trying Cameo endpoint: ${endpoint}`);
 
-      // First, get the initial page to extract ViewState and other form data
-      const initialResponse = await apiClient.get(endpoint, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
+      const controller = new AbortController();
+      let registrarTimedOut = false;
+      const timer = setTimeout(() => {
+        registrarTimedOut = true;
+        controller.abort();
+      }, registrarTimeoutMs);
+      const onRunAbort = () => controller.abort();
+      runController.signal.addEventListener('abort', onRunAbort);
+
+      // Checkers swallow most errors, so race against the abort to enforce the deadline
+      const aborted = new Promise<null>((resolve) => {
+        controller.signal.addEventListener('abort', () => resolve(null));
       });
+      const check = checkThroughCache(adapter, request, options, controller.signal)
+        .catch((error: any): IPOAllotmentResponse => ({
+          success: false,
+          registrar,
+          raw: null,
+          status: isUpstreamUnavailable(error) ? 'upstream_unavailable' : 'error',
+          error: error.message,
+          transient: isTransientFailure(error)
+        }))
+        .then((result) => protectResponse(result, options));
 
-      const $ = cheerio.load(initialResponse.data);
-
-      // Extract form data
-      const viewState = $('input[name="__VIEWSTATE"]').val() as string;
-      const viewStateGenerator = $('input[name="__VIEWSTATEGENERATOR"]').val() as string;
-      const eventValidation = $('input[name="__EVENTVALIDATION"]').val() as string;
-
-      if (!viewState) {
-        console.log(`No ViewState found for ${endpoint}, trying next endpoint`);
-        continue;
-      }
+      try {
+        const result = await Promise.race([check, aborted]);
 
-      // Get available companies from the dropdown
-      const companies: { [key: string]: string } = {};
-      $('select[name="drpCompany"] option').each((_, element) => {
-        const value = $(element).attr('value');
-        const text = $(element).text().trim();
-        if (value && value !== '0' && text) {
-          companies[text.toLowerCase()] = value;
+        if (!result || controller.signal.aborted) {
+          recordAborted(registrar, registrarTimedOut || stopReason === 'timeout');
+          return;
         }
-      });
 
-      // Try to find the company by name
-      let companyCode = '';
-      const ipoNameLower = ipoName.toLowerCase();
+        outcomes.set(registrar, 'completed');
+        results.set(registrar, result);
 
-      // First try exact match
-      if (companies[ipoNameLower]) {
-        companyCode = companies[ipoNameLower];
-      } else {
-        // Try partial match
-        for (const [companyName, code] of Object.entries(companies)) {
-          if (companyName.includes(ipoNameLower) || ipoNameLower.includes(companyName)) {
-            companyCode = code;
-            break;
-          }
+        if (options.stopOnFirstDefinitive && !stopReason && DEFINITIVE_STATUSES.includes(result.status)) {
+          stopReason = 'definitive';
+          definitiveRegistrar = registrar;
+          runController.abort();
         }
+      } finally {
+        clearTimeout(timer);
+        runController.signal.removeEventListener('abort', onRunAbort);
       }
+    };
 
-      if (!companyCode) {
-        // If no company found, try with the first available company for testing
-        const firstCompany = Object.values(companies)[0];
-        if (firstCompany) {
-          companyCode = firstCompany;
-          console.log(`Company "${ipoName}" not found, using first available company for testing`);
-        } else {
-          continue; // Try next endpoint
-        }
-      }
-
-      // Try different captcha strategies - based on your successful example
-      const captchaStrategies = [
-        '596407', // From your successful example
-        '123456', // Common default
-        '000000', // Another common default
-        Math.floor(Math.random() * 900000 + 100000).toString(), // Random 6-digit number
-        '', // Try empty captcha last
-      ];
-
-      for (const captchaValue of captchaStrategies) {
-        console.log(`Trying Cameo with captcha: ${captchaValue || 'empty'}`);
-
-        // Prepare form data for submission - using format from your successful example
-        const formData = new URLSearchParams();
-        formData.append('ScriptManager1', 'OrdersPanel|btngenerate');
-        formData.append('__EVENTTARGET', '');
-        formData.append('__EVENTARGUMENT', '');
-        formData.append('drpCompany', companyCode);
-        formData.append('ddlUserTypes', 'PAN NO');
-        formData.append('txtfolio', panNo);
-        formData.append('txt_phy_captcha', captchaValue);
-        formData.append('__VIEWSTATE', viewState);
-        formData.append('__VIEWSTATEGENERATOR', viewStateGenerator);
-        formData.append('__EVENTVALIDATION', eventValidation);
-        formData.append('__ASYNCPOST', 'true');
-        formData.append('btngenerate', 'Submit');
-
-        try {
-          // Submit the form using AJAX format to get the table response
-          const response = await apiClient.post(endpoint, formData, {
-            headers: {
-              'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              'Referer': endpoint,
-              'X-Requested-With': 'XMLHttpRequest',
-              'X-MicrosoftAjax': 'Delta=true',
-              'Cache-Control': 'no-cache'
-            }
-          });
-
-          const responseHtml = response.data;
-          console.log(`Response for captcha ${captchaValue}: ${responseHtml.substring(0, 200)}...`);
-
-          // Check for captcha requirement in the response
-          const captchaScript = responseHtml.includes("showpop6('Oops!..Please enter the Captcha')");
-
-          if (captchaScript) {
-            console.log(`Captcha required for value: ${captchaValue || 'empty'}, trying next strategy`);
-            continue; // Try next captcha strategy
-          }
-
-          // Parse the AJAX response - it might be in the format: 1|#||4|8505|updatePanel|OrdersPanel|<html content>
-          let htmlContent = responseHtml;
-          if (responseHtml.includes('|updatePanel|OrdersPanel|')) {
-            const parts = responseHtml.split('|updatePanel|OrdersPanel|');
-            if (parts.length > 1) {
-              htmlContent = parts[1];
-            }
-          }
-
-          const $response = cheerio.load(htmlContent);
-
-          // Parse the response for allotment information
-          let allotmentStatus = 'No Record Found';
-          let allotmentDetails: any = undefined;
-
-          // Look for the specific table structure you showed in the image
-          // Headers: HOLD_ID | ALLOTTED_SHARES | REFUND_AMOUNT | REFUND_MODE | PAN_NO
-
-          // First, check for the exact text patterns from your image
-          if (htmlContent.includes('NO DATA FOUND FOR THIS SEARCH PLCY') ||
-              htmlContent.includes('NO DATA FOUND')) {
-            allotmentStatus = 'No Record Found';
-            console.log('Found "NO DATA FOUND" message in response');
-          }
-
-          // Look for tables with the specific headers
-          const tables = $response('table');
-          console.log(`Found ${tables.length} tables in response`);
-
-          if (tables.length > 0) {
-            tables.each((_, table) => {
-              const $table = $response(table);
-              const rows = $table.find('tr');
-              console.log(`Table has ${rows.length} rows`);
-
-              if (rows.length > 0) {
-                // Check header row for expected columns
-                const headerRow = $response(rows[0]);
-                const headers = headerRow.find('th, td').map((_, el) => $response(el).text().trim()).get();
-                console.log('Table headers:', headers);
-
-                // Look for the specific headers from your image
-                const hasExpectedHeaders = headers.some(h =>
-                  h.includes('HOLD_ID') ||
-                  h.includes('ALLOTTED_SHARES') ||
-                  h.includes('REFUND_AMOUNT') ||
-                  h.includes('REFUND_MODE') ||
-                  h.includes('PAN_NO')
-                );
-
-                if (hasExpectedHeaders || headers.length >= 4) {
-                  console.log('Found table with expected headers');
-
-                  // Process data rows
-                  rows.each((index, row) => {
-                    if (index === 0) return; // Skip header
-
-                    const $row = $response(row);
-                    const cells = $row.find('td');
-
-                    if (cells.length > 0) {
-                      const cellTexts = cells.map((_, cell) => $response(cell).text().trim()).get();
-                      console.log(`Row ${index} data:`, cellTexts);
-
-                      // Check for "NO DATA FOUND" message in any cell
-                      const noDataFound = cellTexts.some(text =>
-                        text.includes('NO DATA FOUND') ||
-                        text.includes('NO RECORD FOUND') ||
-                        text.includes('NO DATA FOUND FOR THIS SEARCH')
-                      );
-
-                      if (noDataFound) {
-                        allotmentStatus = 'No Record Found';
-                        console.log('Found "NO DATA FOUND" in table cell');
-                      } else if (cellTexts.length >= 4 && cellTexts[0] && cellTexts[0] !== '') {
-                        // Found actual data - structure: [HOLD_ID, ALLOTTED_SHARES, REFUND_AMOUNT, REFUND_MODE, PAN_NO]
-                        allotmentDetails = {
-                          holdId: cellTexts[0] || '',
-                          allottedShares: cellTexts[1] || '0',
-                          refundAmount: cellTexts[2] || '0',
-                          refundMode: cellTexts[3] || '',
-                          panNo: cellTexts[4] || '',
-                          status: (cellTexts[1] && cellTexts[1] !== '0' && cellTexts[1] !== '') ? 'Allotted' : 'Not Allotted'
-                        };
-
-                        allotmentStatus = allotmentDetails.status;
-                        console.log('Found allotment data:', allotmentDetails);
-                      }
-                    }
-                  });
-                }
-              }
-            });
-          }
-
-          // Check for specific success/failure messages in divs
-          const resultDiv = $response('#divgrid1, .table-responsive, .result');
-          if (resultDiv.length > 0 && resultDiv.text().trim()) {
-            const resultText = resultDiv.text().trim();
-            if (resultText.toLowerCase().includes('no data found') ||
-                resultText.toLowerCase().includes('no record found')) {
-              allotmentStatus = 'No Record Found';
-            } else if (resultText.toLowerCase().includes('allot')) {
-              allotmentStatus = resultText.includes('not') ? 'Not Allotted' : 'Allotted';
-            }
-          }
-
-          return {
-            success: true,
-            registrar: 'cameo',
-            status: allotmentStatus,
-            allotmentDetails: allotmentDetails,
-            raw: responseHtml,
-            details: `Used company code: ${companyCode}, captcha: ${captchaValue || 'empty'}`
-          };
-
-        } catch (submitError: any) {
-          console.log(`Error submitting with captcha ${captchaValue || 'empty'}:`, submitError.message);
-          continue; // Try next captcha strategy
-        }
+    // Simple worker pool: each worker pulls the next registrar until none are left
+    let nextIndex = 0;
+    const worker = async (): Promise<void> => {
+      while (nextIndex < registrars.length) {
+        await runOne(registrars[nextIndex++]);
       }
+    };
 
-      // If all captcha strategies failed, return captcha required error
-      return {
-        success: false,
-        registrar: 'cameo',
-        raw: null,
-        status: 'captcha_required',
-        error: 'All captcha strategies failed. Captcha verification is required for Cameo IPO allotment checking.'
-      };
-
-    } catch (error: any) {
-      console.log(`Error with endpoint ${endpoint}:`, error.message);
-      continue; // Try next endpoint
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, registrars.length) }, worker));
+    } finally {
+      clearTimeout(totalTimer);
     }
-  }
 
-  // If all endpoints failed
-  return {
-    success: false,
-    registrar: 'cameo',
-    raw: null,
-    status: 'error',
-    error: 'All Cameo endpoints are unavailable'
-  };
-}
+    const withOutcome = (outcome: RegistrarCheckOutcome) =>
+      registrars.filter((registrar) => outcomes.get(registrar) === outcome);
 
-// Skyline checker
-async function checkSkyline({ panNo, ipoName }: IPOAllotmentRequest): Promise<IPOAllotmentResponse> {
-  try {
-    console.log(`Checking Skyline IPO allotment for PAN: ${panNo}, IPO: ${ipoName}`);
+    return {
+      results: registrars.map((registrar) => results.get(registrar)!),
+      completed: withOutcome('completed'),
+      timedOut: withOutcome('timed_out'),
+      cancelled: withOutcome('cancelled'),
+      skipped: withOutcome('skipped'),
+      definitiveRegistrar,
+      durationMs: Date.now() - startedAt
+    };
+  }
 
-    // Get company ID using the lookup function
-    let companyId = await getSkylineCompanyId(ipoName);
+  // Work out the registrar from IPO metadata, then check allotment with it
+  static async checkWithResolvedRegistrar(
+    search: AllotmentSearch,
+    hints: RegistrarLookupHints,
+    options: AllotmentCheckOptions = {}
+  ): Promise<AutoAllotmentResult> {
+    const { resolution, attempts } = await resolveRegistrar(hints);
+    if (!resolution) {
+      return { resolution, attempts, result: null };
+    }
 
-    // If no company ID found and ipoName looks like a company name, try direct search
-    if (!companyId) {
+    // Registrar lookups need a company name; fall back to the one listed by the metadata source
+    const ipoName = hints.ipoName || resolution.companyName;
+    if (!ipoName) {
       return {
-        success: false,
-        registrar: 'skyline',
-        raw: null,
-        status: 'error',
-        error: `No company found for IPO name: ${ipoName}. Available companies can be found on https://www.skylinerta.com/ipo.php`
+        resolution,
+        attempts,
+        result: {
+          success: false,
+          registrar: resolution.registrar,
+          raw: null,
+          status: 'error',
+          error: 'No company name available to look up the IPO with the registrar'
+        }
       };
     }
 
-    // Based on the website analysis, Skyline redirects to display_application.php with the company parameter
-    const searchUrl = `https://www.skylinerta.com/display_application.php?app=${companyId}`;
-
-    console.log(`Fetching Skyline application page: ${searchUrl}`);
+    const result = await IPOAllotmentService.checkRegistrar(
+      resolution.registrar,
+      { ...search, ipoName, companyCode: resolution.companyCode },
+      options
+    );
+    return { resolution, attempts, result: resolution.override ? { ...result, override: resolution.override } : result };
+  }
 
-    const response = await apiClient.get(searchUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Referer': 'https://www.skylinerta.com/ipo.php'
+  // Check a registrar, giving up when the deadline passes
+  static async checkRegistrarWithin(
+    registrar: RegistrarType,
+    request: IPOAllotmentRequest,
+    timeoutMs: number,
+    options: AllotmentCheckOptions = {}
+  ): Promise<IPOAllotmentResponse> {
+    const adapter = getRegistrar(registrar);
+    if (!adapter || !supportsSearchMode(adapter, searchModeOf(request))) {
+      return IPOAllotmentService.checkRegistrar(registrar, request, options);
+    }
+    return checkWithDeadline(adapter, request, timeoutMs, options);
+  }
+
+  // Resolve what a bulk check needs once for the whole batch: the registrar (detected from IPO
+  // metadata when not given) and the company code, so it isn't looked up once per PAN
+  static async prepareBulk(
+    request: Omit<BulkAllotmentRequest, 'applicants'>,
+    options: BulkAllotmentOptions = {}
+  ): Promise<BulkAllotmentPlan> {
+    const { registrar: requestedRegistrar, ...hints } = request;
+    const plan: BulkAllotmentPlan = {
+      resolution: null,
+      attempts: [],
+      registrar: requestedRegistrar || null,
+      options: {
+        concurrency: Math.min(MAX_BULK_CONCURRENCY, Math.max(1, options.concurrency ?? DEFAULT_BULK_CONCURRENCY)),
+        checkTimeoutMs: options.checkTimeoutMs ?? DEFAULT_BULK_CHECK_TIMEOUT,
+        bypassCache: options.bypassCache ?? false
       }
-    });
-
-    const html = response.data;
-    const $ = cheerio.load(html);
-
-    // Parse the response to determine allotment status
-    let allotmentStatus = 'No Record Found';
-    let allotmentDetails: any = undefined;
-
-    // Look for forms or input fields where PAN can be entered
-    const panInputs = $('input[type="text"], input[name*="pan"], input[id*="pan"]');
-
-    if (panInputs.length > 0) {
-      // If there are PAN input fields, we need to submit a form
-      // This suggests the page requires form submission to check status
-
-      // Look for the form that contains PAN input
-      const form = panInputs.first().closest('form');
-
-      if (form.length > 0) {
-        const formAction = form.attr('action') || '';
-        const formMethod = (form.attr('method') || 'GET').toUpperCase();
-
-        // Prepare form data
-        const formData = new URLSearchParams();
-
-        // Add all form inputs
-        form.find('input, select').each((_, element) => {
-          const $el = $(element);
-          const name = $el.attr('name');
-          const type = $el.attr('type');
-          const value = $el.attr('value') || '';
-
-          if (name) {
-            if (type === 'text' && (name.toLowerCase().includes('pan') || $el.attr('placeholder')?.toLowerCase().includes('pan'))) {
-              // This is likely the PAN input field
-              formData.append(name, panNo);
-            } else if (type === 'hidden' || type === 'submit' || $el.is('select')) {
-              formData.append(name, value);
-            }
-          }
-        });
-
-        // Submit the form
-        const submitUrl = formAction.startsWith('http') ? formAction : `https://www.skylinerta.com/${formAction}`;
-
-        let submitResponse;
-        if (formMethod === 'POST') {
-          submitResponse = await apiClient.post(submitUrl, formData, {
-            headers: {
-              'Content-Type': 'application/x-www-form-urlencoded',
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              'Referer': searchUrl
-            }
-          });
-        } else {
-          const queryString = formData.toString();
-          const getUrl = `${submitUrl}${submitUrl.includes('?') ? '&' : '?'}${queryString}`;
-          submitResponse = await apiClient.get(getUrl, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              'Referer': searchUrl
-            }
-          });
-        }
-
-        const resultHtml = submitResponse.data;
-        const $result = cheerio.load(resultHtml);
-
-        // Parse the result for allotment information
-        const bodyText = $result('body').text().toLowerCase();
-        const fullHtml = resultHtml.toLowerCase();
-
-        console.log('Skyline response analysis:');
-        console.log('Body text sample:', bodyText.substring(0, 500));
-
-        // First check for explicit "no record found" or similar messages
-        if (bodyText.includes('no record found') ||
-            bodyText.includes('no data found') ||
-            bodyText.includes('record not found') ||
-            bodyText.includes('no application found') ||
-            bodyText.includes('application not found') ||
-            fullHtml.includes('no record') ||
-            fullHtml.includes('not found')) {
-          allotmentStatus = 'No Record Found';
-          console.log('Found "No Record Found" indicators in response');
-        }
-        // Check for error messages or empty results
-        else if (bodyText.includes('error') ||
-                 bodyText.includes('invalid') ||
-                 bodyText.includes('please try again') ||
-                 bodyText.includes('no data available')) {
-          allotmentStatus = 'No Record Found';
-          console.log('Found error indicators in response');
-        }
-        // Look for actual allotment data in tables
-        else {
-          const tables = $result('table');
-          let foundActualData = false;
-
-          if (tables.length > 0) {
-            tables.each((_, table) => {
-              const $table = $result(table);
-              const rows = $table.find('tr');
-
-              // Check if table has meaningful data (more than just headers)
-              if (rows.length > 1) {
-                rows.each((index, row) => {
-                  if (index === 0) return; // Skip header row
-
-                  const $row = $result(row);
-                  const cells = $row.find('td');
-
-                  if (cells.length > 0) {
-                    const cellTexts = cells.map((_, cell) => $result(cell).text().trim()).get();
-                    const rowText = cellTexts.join(' ').toLowerCase();
-
-                    console.log(`Table row ${index} data:`, cellTexts);
-
-                    // Check if this row contains actual application data
-                    // Look for PAN number, application number, or other meaningful data
-                    const hasActualData = cellTexts.some(text =>
-                      text.length > 3 && // Not just empty or very short
-                      !text.toLowerCase().includes('select') &&
-                      !text.toLowerCase().includes('choose') &&
-                      (text.match(/[A-Z]{5}[0-9]{4}[A-Z]{1}/) || // PAN pattern
-                       text.match(/\d{6,}/) || // Application number pattern
-                       text.toLowerCase().includes('shares') ||
-                       text.toLowerCase().includes('amount'))
-                    );
-
-                    if (hasActualData) {
-                      foundActualData = true;
-
-                      // Now check for allotment status
-                      if (rowText.includes('allot') && !rowText.includes('not allot') && !rowText.includes('no allot')) {
-                        allotmentStatus = 'Allotted';
-                        allotmentDetails = {
-                          rawData: cellTexts,
-                          status: 'Allotted'
-                        };
-                      } else if (rowText.includes('not allot') || rowText.includes('no allot') || rowText.includes('rejected')) {
-                        allotmentStatus = 'Not Allotted';
-                        allotmentDetails = {
-                          rawData: cellTexts,
-                          status: 'Not Allotted'
-                        };
-                      } else {
-                        // Found data but unclear status
-                        allotmentStatus = 'Found Data - Check Raw';
-                        allotmentDetails = {
-                          rawData: cellTexts,
-                          status: 'Unknown'
-                        };
-                      }
-                    }
-                  }
-                });
-              }
-            });
-          }
-
-          // If no actual data found in tables, it's likely "No Record Found"
-          if (!foundActualData) {
-            allotmentStatus = 'No Record Found';
-            console.log('No actual application data found in tables');
-          }
-        }
+    };
 
-        return {
-          success: true,
-          registrar: 'skyline',
-          status: allotmentStatus,
-          allotmentDetails: allotmentDetails,
-          raw: resultHtml,
-          details: `Used company ID: ${companyId}, submitted form with PAN: ${panNo}`
-        };
+    if (!plan.registrar) {
+      const { resolution, attempts } = await resolveRegistrar(hints);
+      Object.assign(plan, { resolution, attempts, registrar: resolution?.registrar ?? null });
+      if (!plan.registrar) {
+        return plan;
       }
     }
+    const registrar = plan.registrar;
 
-    // If no form found or form submission not needed, parse the current page
-    const pageText = $('body').text().toLowerCase();
-
-    console.log('No form found, analyzing page content...');
-    console.log('Page text sample:', pageText.substring(0, 500));
-
-    // Check for common "no data" indicators
-    if (pageText.includes('no record') ||
-        pageText.includes('not found') ||
-        pageText.includes('no data') ||
-        pageText.includes('no application') ||
-        pageText.includes('record not available')) {
-      allotmentStatus = 'No Record Found';
+    const adapter = getRegistrar(registrar);
+    if (!adapter) {
+      plan.failure = {
+        success: false,
+        registrar,
+        raw: null,
+        status: 'error',
+        error: `Unknown registrar: ${registrar}`
+      };
+      return plan;
     }
-    // Check if page contains actual application data
-    else {
-      const tables = $('table');
-      let hasApplicationData = false;
-
-      if (tables.length > 0) {
-        tables.each((_, table) => {
-          const $table = $(table);
-          const tableText = $table.text().toLowerCase();
-
-          // Look for signs of actual application data
-          if (tableText.includes('application') &&
-              (tableText.includes('number') || tableText.includes('pan') || tableText.includes('shares'))) {
-            hasApplicationData = true;
-          }
-        });
-      }
-
-      if (hasApplicationData) {
-        allotmentStatus = 'Check Raw Data - Manual Review Needed';
-      } else {
-        allotmentStatus = 'No Record Found';
-      }
+    if (!supportsSearchMode(adapter, 'pan')) {
+      plan.failure = unsupportedSearchResponse(adapter, 'pan');
+      return plan;
     }
 
-    return {
-      success: true,
-      registrar: 'skyline',
-      status: allotmentStatus,
-      raw: html,
-      details: `Used company ID: ${companyId}. ${panInputs.length > 0 ? 'Form found but submission may have failed.' : 'No form found on page.'}`
-    };
-
-  } catch (error: any) {
-    return {
-      success: false,
-      registrar: 'skyline',
-      raw: null,
-      status: 'error',
-      error: error.message
-    };
-  }
-}
-
-// Generic HTML-based checker for other registrars
-async function checkHtmlRegistrar(
-  registrar: RegistrarType,
-  { panNo, ipoName }: IPOAllotmentRequest
-): Promise<IPOAllotmentResponse> {
-  const config = registrarConfigs[registrar];
-  let url = `${config.baseUrl}${config.endpoint}`;
-
-  // For Maashitla, add query parameters
-  if (registrar === 'maashitla') {
-    url += `?company=${encodeURIComponent(ipoName)}&search=${encodeURIComponent(panNo)}`;
-  }
-
-  try {
-    const response: AxiosResponse = await apiClient.get(url);
-    const html = response.data;
-
-    return {
-      success: true,
-      registrar,
-      raw: html,
-      status: 'parse_needed'
-    };
-  } catch (error: any) {
-    return {
-      success: false,
-      registrar,
-      raw: null,
-      status: 'error',
-      error: error.message
-    };
-  }
-}
-
-// Main dispatcher function
-const registrarCheckers: Record<RegistrarType, (req: IPOAllotmentRequest) => Promise<IPOAllotmentResponse>> = {
-  bigshare: checkBigshare,
-  kfintech: checkKfintech,
-  linkintime: checkLinkIntime,
-  skyline: checkSkyline,
-  cameo: checkCameo,
-  mas: (req) => checkHtmlRegistrar('mas', req),
-  maashitla: (req) => checkHtmlRegistrar('maashitla', req),
-  beetal: (req) => checkHtmlRegistrar('beetal', req),
-  purva: checkPurva,
-  mufg: checkMufg
-};
-
-export class IPOAllotmentService {
-  // Check specific registrar
-  static async checkRegistrar(
-    registrar: RegistrarType, 
-    request: IPOAllotmentRequest
-  ): Promise<IPOAllotmentResponse> {
-    const checker = registrarCheckers[registrar];
-    if (!checker) {
-      return {
+    // Registrar lookups need a company name; fall back to the one listed by the metadata source
+    plan.ipoName = hints.ipoName || plan.resolution?.companyName;
+    if (!plan.ipoName) {
+      plan.failure = {
         success: false,
         registrar,
         raw: null,
         status: 'error',
-        error: `Unknown registrar: ${registrar}`
+        error: 'No company name available to look up the IPO with the registrar'
       };
+      return plan;
     }
-    
-    return await checker(request);
-  }
 
-  // Check all registrars sequentially
-  static async checkAllRegistrars(request: IPOAllotmentRequest): Promise<IPOAllotmentResponse[]> {
-    const results: IPOAllotmentResponse[] = [];
-    
-    for (const [registrar, checker] of Object.entries(registrarCheckers)) {
+    // A manual override pins the company code, so the registrar's company list isn't consulted
+    plan.override = plan.resolution?.override ?? RegistrarOverrides.find({ ipoName: plan.ipoName }, registrar) ?? undefined;
+    if (plan.override) {
+      plan.companyCode = plan.override.companyCode;
+      return plan;
+    }
+
+    const { companyDirectory, requiresCompanyCode } = adapter.capabilities;
+    if (requiresCompanyCode && (companyDirectory || adapter.companyDirectoryOf)) {
       try {
-        const result = await checker(request);
-        results.push(result);
-        
-        // If we get a successful result with meaningful data, we might want to stop
-        // For now, we'll continue checking all registrars
+        const company = await resolveCompanyCode(
+          registrar,
+          { ipoName: plan.ipoName },
+          AbortSignal.timeout(plan.options.checkTimeoutMs),
+          adapter.companyDirectoryOf
+        );
+        if ('response' in company) {
+          plan.failure = company.response;
+          return plan;
+        }
+        plan.companyCode = company.companyCode;
       } catch (error: any) {
-        results.push({
+        // The registrar's company list couldn't be collected
+        plan.failure = upstreamUnavailableStatus({
           success: false,
-          registrar: registrar as RegistrarType,
+          registrar,
           raw: null,
           status: 'error',
           error: error.message
         });
       }
     }
-    
-    return results;
-  }
-
-  // Get list of supported registrars
-  static getSupportedRegistrars(): RegistrarConfig[] {
-    return Object.entries(registrarConfigs).map(([key, config]) => ({
-      ...config,
-      name: key
-    }));
-  }
-
-  // Clear BigShare company ID cache
-  static clearBigshareCache(): void {
-    bigshareCompanyIdCache.clear();
-    console.log('BigShare company ID cache cleared');
-  }
 
-  // Clean up expired cache entries
-  static cleanupBigshareCache(): void {
-    cleanupCache();
-    console.log('BigShare company ID cache cleaned up');
-  }
-
-  // Get BigShare cache stats
-  static getBigshareCache(): { size: number; entries: Array<{ ipoName: string; companyId: string | null; age: number }> } {
-    const entries = Array.from(bigshareCompanyIdCache.entries()).map(([key, value]) => ({
-      ipoName: key,
-      companyId: value.id,
-      age: Date.now() - value.timestamp
-    }));
-
-    return {
-      size: bigshareCompanyIdCache.size,
-      entries
+    return plan;
+  }
+
+  // Check several PANs for one IPO, e.g. a family's applications. The registrar and company
+  // code are resolved once, then the PANs are checked a few at a time.
+  static async checkBulk(
+    request: BulkAllotmentRequest,
+    options: BulkAllotmentOptions = {}
+  ): Promise<BulkAllotmentResult> {
+    const startedAt = Date.now();
+    const { applicants, ...target } = request;
+    const { options: settings, ipoName, ...plan } = await IPOAllotmentService.prepareBulk(target, options);
+
+    const { registrar, companyCode, failure } = plan;
+    if (!registrar || !ipoName || failure) {
+      return { ...plan, rows: [], totals: summarizeBulkRows([]), durationMs: Date.now() - startedAt };
+    }
+
+    // Simple worker pool: each worker pulls the next applicant until none are left
+    const rows: BulkAllotmentRow[] = new Array(applicants.length);
+    let nextIndex = 0;
+    const worker = async (): Promise<void> => {
+      while (nextIndex < applicants.length) {
+        const index = nextIndex++;
+        const applicant = applicants[index];
+        const result = await IPOAllotmentService.checkRegistrarWithin(
+          registrar,
+          { ipoName, companyCode, searchBy: 'pan', panNo: applicant.panNo },
+          settings.checkTimeoutMs,
+          { bypassCache: settings.bypassCache }
+        );
+        rows[index] = bulkAllotmentRow(applicant, result);
+      }
     };
-  }
-
-  // Clear MUFG company ID cache
-  static clearMufgCache(): void {
-    mufgCompanyIdCache.clear();
-    console.log('MUFG company ID cache cleared');
-  }
-
-  // Clean up expired MUFG cache entries
-  static cleanupMufgCache(): void {
-    cleanupMufgCache();
-    console.log('MUFG company ID cache cleaned up');
-  }
-
-  // Get MUFG cache stats
-  static getMufgCache(): { size: number; entries: Array<{ ipoName: string; companyId: string | null; age: number }> } {
-    const entries = Array.from(mufgCompanyIdCache.entries()).map(([key, value]) => ({
-      ipoName: key,
-      companyId: value.id,
-      age: Date.now() - value.timestamp
-    }));
+    await Promise.all(Array.from({ length: Math.min(settings.concurrency, applicants.length) }, worker));
 
     return {
-      size: mufgCompanyIdCache.size,
-      entries
+      ...plan,
+      rows,
+      totals: summarizeBulkRows(rows),
+      durationMs: Date.now() - startedAt
     };
   }
 
-  // Clear Purva company ID cache
-  static clearPurvaCache(): void {
-    purvaCompanyIdCache.clear();
-    console.log('Purva company ID cache cleared');
+  // Check whether a registrar key is supported
+  static isSupportedRegistrar(registrar: string): registrar is RegistrarType {
+    return hasRegistrar(registrar);
   }
 
-  // Clean up expired Purva cache entries
-  static cleanupPurvaCache(): void {
-    cleanupPurvaCache();
-    console.log('Purva company ID cache cleaned up');
+  // Get list of supported registrars with what each one can do
+  static getSupportedRegistrars(): RegistrarSummary[] {
+    return listRegistrars().map(summarizeRegistrar);
   }
 
-  // Get Purva cache stats
-  static getPurvaCache(): { size: number; entries: Array<{ ipoName: string; companyId: string | null; age: number }> } {
-    const entries = Array.from(purvaCompanyIdCache.entries()).map(([key, value]) => ({
-      ipoName: key,
-      companyId: value.id,
-      age: Date.now() - value.timestamp
-    }));
-
-    return {
-      size: purvaCompanyIdCache.size,
-      entries
-    };
+  // Clear one registrar's company ID cache, or every registrar's
+  static async clearCompanyCache(registrar?: RegistrarType): Promise<void> {
+    await clearCompanyIdCache(registrar);
+    console.log(`${registrar || 'All'} company ID cache cleared`);
   }
 
-  // Clear Skyline company ID cache
-  static clearSkylineCache(): void {
-    skylineCompanyIdCache.clear();
-    console.log('Skyline company ID cache cleared');
+  // Clean up expired company ID cache entries
+  static async cleanupCompanyCache(): Promise<void> {
+    await cleanupCompanyIdCaches();
+    console.log('Company ID caches cleaned up');
   }
 
-  // Clean up expired Skyline cache entries
-  static cleanupSkylineCache(): void {
-    cleanupSkylineCache();
-    console.log('Skyline company ID cache cleaned up');
-  }
+  // Redo a company lookup from a freshly collected company list. Registrars that share another's
+  // list (Link Intime uses MUFG's) are looked up in that list. Null for registrars without one.
+  static async refreshCompanyLookup(
+    registrar: RegistrarType,
+    ipoName: string
+  ): Promise<{ directoryRegistrar: RegistrarType; lookup: CompanyMatchResult } | null> {
+    const adapter = getRegistrar(registrar);
+    const directoryRegistrar = adapter?.companyDirectoryOf || registrar;
+    if (!adapter || !RegistrarDirectory.hasCollector(directoryRegistrar)) {
+      return null;
+    }
 
-  // Get Skyline cache stats
-  static getSkylineCache(): { size: number; entries: Array<{ ipoName: string; companyId: string | null; age: number }> } {
-    const entries = Array.from(skylineCompanyIdCache.entries()).map(([key, value]) => ({
-      ipoName: key,
-      companyId: value.id,
-      age: Date.now() - value.timestamp
-    }));
+    const lookup = await refreshCompanyLookup(directoryRegistrar, ipoName);
+    console.log(`${directoryRegistrar} company lookup for "${ipoName}" refreshed: ${lookup.match?.code ?? lookup.status}`);
+    return { directoryRegistrar, lookup };
+  }
 
-    return {
-      size: skylineCompanyIdCache.size,
-      entries
-    };
+  // Get a registrar's company ID cache stats
+  static async getCompanyCache(registrar: RegistrarType): Promise<{ size: number; entries: Array<{ ipoName: string; companyId: string | null; age: number }> }> {
+    return getCompanyIdCache(registrar);
   }
 }
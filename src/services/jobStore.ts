@@ -0,0 +1,49 @@
+import { AllotmentJob, AllotmentJobStore } from '../types/ipoAllotment';
+
+const JOB_TTL = 60 * 60 * 1000; // Finished jobs are kept for an hour
+const MAX_JOBS = 500; // Oldest finished jobs are dropped beyond this
+
+// In-process job store, the default. Jobs are copied in and out, so callers behave the same as
+// with a persistent store, and are lost when the instance stops.
+export class MemoryJobStore implements AllotmentJobStore {
+  // Jobs by ID, in submission order
+  private readonly jobs = new Map<string, AllotmentJob>();
+
+  async save(job: AllotmentJob): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job));
+    this.cleanup();
+  }
+
+  async get(id: string): Promise<AllotmentJob | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async claimNext(): Promise<AllotmentJob | null> {
+    for (const job of this.jobs.values()) {
+      if (job.status === 'queued') {
+        job.status = 'running';
+        job.startedAt = new Date().toISOString();
+        return structuredClone(job);
+      }
+    }
+    return null;
+  }
+
+  // Drop expired finished jobs and enforce the size limit. Unfinished jobs are never dropped.
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.finishedAt && now - Date.parse(job.finishedAt) > JOB_TTL) {
+        this.jobs.delete(id);
+      }
+    }
+
+    for (const [id, job] of this.jobs.entries()) {
+      if (this.jobs.size <= MAX_JOBS) break;
+      if (job.finishedAt) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { format } from 'util';
+import {
+  AllotmentApplication,
+  AllotmentCheckOptions,
+  AllotmentSearch,
+  AllotmentStatus,
+  IPOAllotmentResponse
+} from '../types/ipoAllotment';
+
+// A PAN anywhere in a string: 5 letters, 4 digits, 1 letter
+const PAN_PATTERN = /\b([A-Z]{5})[0-9]{4}([A-Z])\b/gi;
+
+let fallbackSalt: Buffer | null = null;
+let logRedactionInstalled = false;
+
+// Mask a PAN for display and logs: ABCDE1234F becomes ABCDE****F
+export function maskPan(pan: string): string {
+  return pan.length === 10 ? `${pan.slice(0, 5)}****${pan.slice(9)}` : redactPans(pan);
+}
+
+// A search with its PAN masked, for reporting a stored request back
+export function maskSearchPan<T extends AllotmentSearch>(search: T): T {
+  return search.panNo ? { ...search, panNo: maskPan(search.panNo) } : search;
+}
+
+// Mask every PAN in free text, e.g. a log line or an error message
+export function redactPans(text: string): string {
+  return text.replace(PAN_PATTERN, '$1****$2');
+}
+
+// Salt for PAN hashes, from PAN_HASH_SALT. Without it a random salt is used, so hashes only
+// match within one process.
+function hashSalt(): string | Buffer {
+  if (process.env.PAN_HASH_SALT) {
+    return process.env.PAN_HASH_SALT;
+  }
+  if (!fallbackSalt) {
+    fallbackSalt = randomBytes(32);
+    console.warn('PAN_HASH_SALT is not set; PAN hashes will change when the process restarts');
+  }
+  return fallbackSalt;
+}
+
+// Salted hash of a PAN, for wherever a PAN would otherwise be used as a key
+export function hashPan(pan: string): string {
+  return createHmac('sha256', hashSalt()).update(pan.trim().toUpperCase()).digest('hex');
+}
+
+// Whether a token from a request matches a configured secret, compared in constant time.
+// Always false when no secret is configured.
+export function tokenMatches(token: unknown, expected: string | undefined): boolean {
+  if (!expected || typeof token !== 'string') {
+    return false;
+  }
+
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
+
+// Whether a request's debug token matches ALLOTMENT_DEBUG_TOKEN
+export function isAuthorisedDebugToken(token: unknown): boolean {
+  return tokenMatches(token, process.env.ALLOTMENT_DEBUG_TOKEN);
+}
+
+// Mask a name to its initials: RAHUL SHARMA becomes R. S.
+export function maskName(name: string): string {
+  return name.split(/\s+/).filter(Boolean).map((part) => `${part[0]}.`).join(' ');
+}
+
+// Mask an account or application number to its last 4 characters: IN30154912345678 becomes
+// ************5678
+export function maskIdentifier(value: string): string {
+  return value.length > 4 ? `${'*'.repeat(value.length - 4)}${value.slice(-4)}` : '****';
+}
+
+// Mask PANs and the given details' name, DP ID and application number wherever they appear in
+// free text, e.g. a result row echoed back as rawStatus
+function redactDetailsText(text: string, details: AllotmentStatus): string {
+  const masked: Array<[string | undefined, (value: string) => string]> = [
+    [details.applicantName, maskName],
+    [details.dpId, maskIdentifier],
+    [details.applicationNumber, maskIdentifier]
+  ];
+  return masked.reduce(
+    (redacted, [value, mask]) => (value ? redacted.split(value).join(mask(value)) : redacted),
+    redactPans(text)
+  );
+}
+
+// Allotment details with the applicant's name, DP ID and application number masked
+function protectDetails<T extends AllotmentStatus>(details: T): T {
+  return {
+    ...details,
+    applicantName: details.applicantName && maskName(details.applicantName),
+    dpId: details.dpId && maskIdentifier(details.dpId),
+    applicationNumber: details.applicationNumber && maskIdentifier(details.applicationNumber)
+  };
+}
+
+function protectApplication(application: AllotmentApplication): AllotmentApplication {
+  return {
+    ...protectDetails(application),
+    rawStatus: application.rawStatus && redactDetailsText(application.rawStatus, application)
+  };
+}
+
+// A registrar response fit to return or store: PANs masked in details and error, and the raw
+// registrar body (full of names, PANs and account numbers) dropped unless it was asked for.
+// Applicant names, DP IDs and application numbers are masked too, except in debug output,
+// which shows the registrar's answer as it came.
+export function protectResponse(
+  response: IPOAllotmentResponse,
+  { includeRaw = false }: AllotmentCheckOptions = {}
+): IPOAllotmentResponse {
+  const protectedResponse: IPOAllotmentResponse = {
+    ...response,
+    raw: includeRaw ? response.raw : null,
+    details: response.details && redactPans(response.details),
+    error: response.error && redactPans(response.error)
+  };
+  if (includeRaw) {
+    return protectedResponse;
+  }
+
+  const { allotmentDetails, applications, rawStatus } = response;
+  return {
+    ...protectedResponse,
+    rawStatus: rawStatus && redactDetailsText(rawStatus, allotmentDetails || {}),
+    allotmentDetails: allotmentDetails && protectDetails(allotmentDetails),
+    applications: applications && applications.map(protectApplication)
+  };
+}
+
+// Mask PANs in everything written through the console, so no log line carries a full PAN
+// whichever module (or library) wrote it
+export function installLogRedaction(): void {
+  if (logRedactionInstalled) {
+    return;
+  }
+  logRedactionInstalled = true;
+
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const write = console[method].bind(console);
+    console[method] = (...args: any[]) => write(redactPans(format(...args)));
+  }
+}
@@ -0,0 +1,47 @@
+import axios, { AxiosInstance } from 'axios';
+import http from 'http';
+import https from 'https';
+import { HealthMarker, ProbeOutcome } from '../types/ipoAllotment';
+import { checkMarkers } from './healthMarkers';
+import { installCircuitBreaker } from './circuitBreaker';
+import { installRetryPolicy } from './retryPolicy';
+
+// Configure axios with default settings for registrar APIs. Connections are kept alive, so
+// back-to-back checks against one registrar (e.g. a bulk check of several PANs) reuse them.
+// Each registrar host has a circuit breaker, so a registrar that is down fails fast, and a retry
+// policy, so a dropped connection or a passing 502/503 doesn't fail the check.
+export const registrarApiClient: AxiosInstance = installRetryPolicy(installCircuitBreaker(axios.create({
+  timeout: 30000, // 30 seconds timeout
+  httpAgent: new http.Agent({ keepAlive: true }),
+  httpsAgent: new https.Agent({ keepAlive: true }),
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'application/json, text/plain, */*',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Connection': 'keep-alive',
+    'Cache-Control': 'no-cache',
+    'Pragma': 'no-cache'
+  }
+})));
+
+const PROBE_TIMEOUT = 10000; // 10 seconds, a health probe should fail fast
+
+// Health probe: resolve with the markers found when the URL answers without a server error,
+// throw otherwise
+export async function probeRegistrarUrl(
+  url: string,
+  signal?: AbortSignal,
+  markers: HealthMarker[] = []
+): Promise<ProbeOutcome> {
+  const response = await registrarApiClient.get(url, {
+    signal,
+    timeout: PROBE_TIMEOUT,
+    validateStatus: () => true
+  });
+
+  if (response.status >= 500) {
+    throw new Error(`${url} responded with HTTP ${response.status}`);
+  }
+  return { url, httpStatus: response.status, markers: checkMarkers(response.data, markers) };
+}
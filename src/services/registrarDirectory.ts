@@ -0,0 +1,301 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import {
+  CompanyOption,
+  RegistrarCompany,
+  RegistrarDirectoryStatus,
+  RegistrarType
+} from '../types/ipoAllotment';
+import { registrarApiClient as apiClient } from './registrarClient';
+import { getRegistrar, listRegistrars } from '../registrars/registry';
+import { createSnapshot } from './snapshots';
+
+const DIRECTORY_REFRESH_INTERVAL = 30 * 60 * 1000; // 30 minutes between scheduled refreshes
+const MISS_REFRESH_INTERVAL = 5 * 60 * 1000; // A lookup miss may force a refresh this often
+const FAILED_REFRESH_RETRY_INTERVAL = 60 * 1000; // Wait a minute before retrying a registrar that failed
+
+// Index of every company seen, keyed by `${registrar}:${companyCode}`
+const directoryIndex = new Map<string, RegistrarCompany>();
+
+// Refresh bookkeeping per registrar
+const refreshState = new Map<RegistrarType, {
+  lastRefreshedAt?: number;
+  lastAttemptAt?: number;
+  lastFailure?: Error;
+  inFlight?: Promise<void>;
+}>();
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+// The index and when each registrar's list was last collected, snapshotted after every change and
+// restored when an instance starts. A restored list counts as fresh until the refresh interval
+// since it was collected passes, so cold instances don't re-scrape registrars on their first check.
+const snapshot = createSnapshot<{
+  companies: RegistrarCompany[];
+  refreshedAt: Partial<Record<RegistrarType, number>>;
+}>(
+  'registrar-directory',
+  () => ({
+    companies: Array.from(directoryIndex.values()),
+    refreshedAt: Object.fromEntries(
+      Array.from(refreshState.entries())
+        .filter(([, state]) => state.lastRefreshedAt)
+        .map(([registrar, state]) => [registrar, state.lastRefreshedAt])
+    )
+  }),
+  ({ companies, refreshedAt }) => {
+    for (const company of companies) {
+      const key = `${company.registrar}:${company.companyCode}`;
+      if (!directoryIndex.has(key)) {
+        directoryIndex.set(key, company);
+      }
+    }
+    for (const [registrar, lastRefreshedAt] of Object.entries(refreshedAt)) {
+      const state = refreshState.get(registrar as RegistrarType) || {};
+      if (!state.lastRefreshedAt || state.lastRefreshedAt < lastRefreshedAt!) {
+        state.lastRefreshedAt = lastRefreshedAt;
+      }
+      refreshState.set(registrar as RegistrarType, state);
+    }
+  }
+);
+
+// Company dropdowns on registrar form pages, most specific first
+const COMPANY_SELECT_SELECTORS = [
+  'select[name*="company" i] option',
+  'select[id*="company" i] option',
+  'select[name*="ddl" i] option',
+  'select[name*="drp" i] option',
+  'select option[value]'
+];
+
+// Read the options of a company <select>, skipping placeholders like "Select Company"
+export function extractSelectOptions($: cheerio.CheerioAPI, selector: string): CompanyOption[] {
+  const options: CompanyOption[] = [];
+
+  $(selector).each((_, element) => {
+    const code = ($(element).attr('value') || '').trim();
+    const name = $(element).text().trim();
+
+    if (!code || code === '0' || !name || name.toLowerCase().includes('select')) {
+      return;
+    }
+    options.push({ code, name });
+  });
+
+  return options;
+}
+
+// Read the company dropdown of a registrar's allotment form page
+export async function collectCompaniesFromPage(url: string): Promise<CompanyOption[]> {
+  const response = await apiClient.get(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+    }
+  });
+  const $ = cheerio.load(response.data);
+
+  for (const selector of COMPANY_SELECT_SELECTORS) {
+    const options = extractSelectOptions($, selector);
+    if (options.length > 0) {
+      return options;
+    }
+  }
+  return [];
+}
+
+// Merge freshly scraped options into the index, keeping the first-seen time of known companies
+function recordCompanies(registrar: RegistrarType, options: CompanyOption[]): void {
+  const now = new Date().toISOString();
+
+  for (const option of options) {
+    const key = `${registrar}:${option.code}`;
+    const existing = directoryIndex.get(key);
+
+    directoryIndex.set(key, {
+      registrar,
+      companyCode: option.code,
+      displayName: option.name,
+      firstSeenAt: existing?.firstSeenAt || now,
+      lastSeenAt: now
+    });
+  }
+}
+
+// Collect one registrar's company list, sharing an in-flight refresh between callers, who all see
+// its failure. The scrape is not tied to any caller's signal, so one aborted check can't fail it
+// for the others.
+function refreshRegistrar(registrar: RegistrarType): Promise<void> {
+  const collector = getRegistrar(registrar)?.listCompanies;
+  if (!collector) {
+    return Promise.resolve();
+  }
+
+  const state = refreshState.get(registrar) || {};
+  refreshState.set(registrar, state);
+  if (state.inFlight) {
+    return state.inFlight;
+  }
+
+  state.lastAttemptAt = Date.now();
+  state.inFlight = (async () => {
+    try {
+      const options = await collector();
+      recordCompanies(registrar, options);
+      state.lastRefreshedAt = Date.now();
+      state.lastFailure = undefined;
+      console.log(`Registrar directory refreshed for ${registrar}: ${options.length} companies`);
+      await snapshot.save();
+    } catch (error: any) {
+      state.lastFailure = error;
+      console.error(`Error refreshing registrar directory for ${registrar}:`, error.message);
+      throw error;
+    } finally {
+      state.inFlight = undefined;
+    }
+  })();
+
+  return state.inFlight;
+}
+
+// Wait for a refresh, giving up early (as a cancellation) if the caller's signal aborts
+function waitForRefresh(refresh: Promise<void>, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return refresh;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new axios.CanceledError());
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => reject(new axios.CanceledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    refresh.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// A list needs collecting when it is older than the refresh interval,
+// unless the last attempt failed so recently that retrying would just hammer the registrar
+function needsRefresh(registrar: RegistrarType): boolean {
+  const state = refreshState.get(registrar);
+  const now = Date.now();
+
+  if (state?.lastRefreshedAt && now - state.lastRefreshedAt < DIRECTORY_REFRESH_INTERVAL) {
+    return false;
+  }
+  return !state?.lastAttemptAt || now - state.lastAttemptAt > FAILED_REFRESH_RETRY_INTERVAL;
+}
+
+function companiesFor(registrar: RegistrarType): RegistrarCompany[] {
+  return Array.from(directoryIndex.values()).filter((company) => company.registrar === registrar);
+}
+
+export class RegistrarDirectory {
+  // Registrars whose adapter can list their companies
+  static getDirectoryRegistrars(): RegistrarType[] {
+    return listRegistrars()
+      .filter((adapter) => adapter.listCompanies)
+      .map((adapter) => adapter.key);
+  }
+
+  static hasCollector(registrar: RegistrarType): boolean {
+    return Boolean(getRegistrar(registrar)?.listCompanies);
+  }
+
+  // Get a registrar's companies, refreshing the list first if it is stale. A failed refresh leaves
+  // the last list in use; with no list at all it throws, since an IPO can't be missing from a
+  // list that was never collected.
+  static async getCompanies(registrar: RegistrarType, signal?: AbortSignal): Promise<RegistrarCompany[]> {
+    await snapshot.warm();
+    if (needsRefresh(registrar)) {
+      await waitForRefresh(refreshRegistrar(registrar), signal).catch((error) => {
+        if (axios.isCancel(error)) throw error;
+      });
+    }
+
+    const companies = companiesFor(registrar);
+    const lastFailure = refreshState.get(registrar)?.lastFailure;
+    if (companies.length === 0 && lastFailure) {
+      throw lastFailure;
+    }
+    return companies;
+  }
+
+  // Re-collect a registrar's list after a lookup miss, so a newly added IPO is picked up quickly.
+  // Returns false when the list was refreshed too recently to be worth scraping again, and throws
+  // when the refresh fails.
+  static async refreshAfterMiss(registrar: RegistrarType, signal?: AbortSignal): Promise<boolean> {
+    const lastAttemptAt = refreshState.get(registrar)?.lastAttemptAt;
+    if (lastAttemptAt && Date.now() - lastAttemptAt < MISS_REFRESH_INTERVAL) {
+      return false;
+    }
+    await waitForRefresh(refreshRegistrar(registrar), signal);
+    return true;
+  }
+
+  // Re-collect a registrar's list now, e.g. when an admin knows it has changed
+  static async refresh(registrar: RegistrarType): Promise<void> {
+    await refreshRegistrar(registrar);
+  }
+
+  // Refresh every registrar (or only stale ones) concurrently. A registrar that fails is logged
+  // and keeps its last list; the others still refresh.
+  static async refreshAll(onlyStale = false): Promise<void> {
+    await snapshot.warm();
+    const registrars = RegistrarDirectory.getDirectoryRegistrars()
+      .filter((registrar) => !onlyStale || needsRefresh(registrar));
+    await Promise.allSettled(registrars.map((registrar) => refreshRegistrar(registrar)));
+  }
+
+  // Search the index by company name or code
+  static async search(query: string, registrar?: RegistrarType): Promise<RegistrarCompany[]> {
+    await RegistrarDirectory.refreshAll(true);
+
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return Array.from(directoryIndex.values())
+      .filter((company) => !registrar || company.registrar === registrar)
+      .filter((company) => {
+        const haystack = `${company.displayName} ${company.companyCode}`.toLowerCase();
+        return terms.every((term) => haystack.includes(term));
+      })
+      .sort((a, b) => b.firstSeenAt.localeCompare(a.firstSeenAt) || a.displayName.localeCompare(b.displayName));
+  }
+
+  // Record options a checker scraped itself, e.g. Cameo's form page
+  static recordCompanies(registrar: RegistrarType, options: CompanyOption[]): void {
+    recordCompanies(registrar, options);
+    snapshot.save();
+  }
+
+  static getStatus(): RegistrarDirectoryStatus[] {
+    return RegistrarDirectory.getDirectoryRegistrars().map((registrar) => {
+      const state = refreshState.get(registrar);
+      return {
+        registrar,
+        companyCount: companiesFor(registrar).length,
+        lastRefreshedAt: state?.lastRefreshedAt ? new Date(state.lastRefreshedAt).toISOString() : undefined,
+        lastError: state?.lastFailure?.message
+      };
+    });
+  }
+
+  // Refresh the directory in the background while the process is alive
+  static startPeriodicRefresh(intervalMs: number = DIRECTORY_REFRESH_INTERVAL): void {
+    if (refreshTimer) {
+      return;
+    }
+    refreshTimer = setInterval(() => {
+      RegistrarDirectory.refreshAll().catch((error) => {
+        console.error('Error refreshing registrar directory:', error.message);
+      });
+    }, intervalMs);
+    refreshTimer.unref(); // Don't keep the process alive just for refreshes
+  }
+
+  static stopPeriodicRefresh(): void {
+    if (refreshTimer) {
+      clearInterval(refreshTimer);
+      refreshTimer = null;
+    }
+  }
+}
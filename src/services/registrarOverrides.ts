@@ -0,0 +1,182 @@
+import { randomUUID } from 'crypto';
+import { existsSync, promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import {
+  RegistrarLookupHints,
+  RegistrarOverride,
+  RegistrarOverrideField,
+  RegistrarOverrideInput,
+  RegistrarOverrideUse,
+  RegistrarType
+} from '../types/ipoAllotment';
+import { snapshotDirectory } from './snapshots';
+
+const OVERRIDES_FILE_NAME = 'registrar-overrides.json';
+
+const OVERRIDE_FIELDS: RegistrarOverrideField[] = ['symbol', 'slug', 'ipoName'];
+
+// A saved override, or the existing one that claims the same identifier
+type OverrideChange = { override: RegistrarOverride } | { conflict: RegistrarOverride };
+
+// Overrides in creation order, read from disk on first use
+let overrides: RegistrarOverride[] | null = null;
+let saving: Promise<void> = Promise.resolve();
+
+// REGISTRAR_OVERRIDES_FILE, or a file beside the snapshots, which is where this instance can write
+function overridesFile(): string {
+  return process.env.REGISTRAR_OVERRIDES_FILE || path.join(snapshotDirectory(), OVERRIDES_FILE_NAME);
+}
+
+// Compare identifiers the way people type them: IPO names and slugs ignore case and spacing,
+// symbols are upper-case
+function normalise(field: RegistrarOverrideField, value: string): string {
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  return field === 'symbol' ? trimmed.toUpperCase() : trimmed.toLowerCase();
+}
+
+function loadOverrides(): RegistrarOverride[] {
+  if (!overrides) {
+    const file = overridesFile();
+    try {
+      overrides = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : [];
+    } catch (error: any) {
+      console.error(`Error reading registrar overrides from ${file}:`, error.message);
+      overrides = [];
+    }
+  }
+  return overrides!;
+}
+
+// Run a change against a copy of the table, one change after another. A changed copy is written
+// to disk (through a temporary file, so a crash never leaves half a table behind) and only then
+// replaces the table in memory, so a failed save changes nothing.
+function changeOverrides<T>(change: (table: RegistrarOverride[]) => T): Promise<T> {
+  const run = saving.catch(() => undefined).then(async () => {
+    const table = loadOverrides().slice();
+    const before = JSON.stringify(table, null, 2);
+    const result = change(table);
+    const after = JSON.stringify(table, null, 2);
+
+    if (after !== before) {
+      const file = overridesFile();
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(`${file}.tmp`, after);
+      await fs.rename(`${file}.tmp`, file);
+      overrides = table;
+    }
+    return result;
+  });
+  saving = run.then(() => undefined);
+  return run;
+}
+
+// The override already claiming one of these identifiers, other than the one being updated
+function findConflict(
+  table: RegistrarOverride[],
+  input: RegistrarOverrideInput,
+  exceptId?: string
+): RegistrarOverride | null {
+  return table.find((override) => override.id !== exceptId && OVERRIDE_FIELDS.some((field) =>
+    input[field] && override[field] && normalise(field, input[field]!) === normalise(field, override[field]!)
+  )) || null;
+}
+
+// Manual registrar and company code mappings, managed through the admin API and kept in a JSON
+// file (REGISTRAR_OVERRIDES_FILE, or beside the snapshots under SNAPSHOT_DIR). Checks consult
+// them before detecting a registrar or looking a company up.
+export class RegistrarOverrides {
+  static list(): RegistrarOverride[] {
+    return loadOverrides().map((override) => ({ ...override }));
+  }
+
+  static get(id: string): RegistrarOverride | null {
+    const override = loadOverrides().find((candidate) => candidate.id === id);
+    return override ? { ...override } : null;
+  }
+
+  // The override for an IPO, matched on symbol, then slug, then IPO name. With a registrar, only
+  // that registrar's overrides are considered.
+  static find(hints: RegistrarLookupHints, registrar?: RegistrarType): RegistrarOverrideUse | null {
+    for (const field of OVERRIDE_FIELDS) {
+      const value = hints[field];
+      if (!value) continue;
+
+      const override = loadOverrides().find((candidate) =>
+        candidate[field] &&
+        normalise(field, candidate[field]!) === normalise(field, value) &&
+        (!registrar || candidate.registrar === registrar)
+      );
+      if (override) {
+        return { id: override.id, matchedOn: field, registrar: override.registrar, companyCode: override.companyCode };
+      }
+    }
+    return null;
+  }
+
+  // Add an override. Returns the existing override instead when one already claims an identifier.
+  static async create(input: RegistrarOverrideInput): Promise<OverrideChange> {
+    const created = await changeOverrides<OverrideChange>((table) => {
+      const conflict = findConflict(table, input);
+      if (conflict) {
+        return { conflict: { ...conflict } };
+      }
+
+      const now = new Date().toISOString();
+      const override: RegistrarOverride = { id: randomUUID(), ...input, createdAt: now, updatedAt: now };
+      table.push(override);
+      return { override: { ...override } };
+    });
+
+    if ('override' in created) {
+      console.log(`Registrar override ${created.override.id} added: ${created.override.registrar} company ${created.override.companyCode}`);
+    }
+    return created;
+  }
+
+  // Replace an override's mapping. Null when the ID is unknown.
+  static async update(
+    id: string,
+    input: RegistrarOverrideInput
+  ): Promise<OverrideChange | null> {
+    const updated = await changeOverrides<OverrideChange | null>((table) => {
+      const index = table.findIndex((override) => override.id === id);
+      if (index === -1) {
+        return null;
+      }
+      const conflict = findConflict(table, input, id);
+      if (conflict) {
+        return { conflict: { ...conflict } };
+      }
+
+      const override: RegistrarOverride = {
+        id,
+        ...input,
+        createdAt: table[index].createdAt,
+        updatedAt: new Date().toISOString()
+      };
+      table[index] = override;
+      return { override: { ...override } };
+    });
+
+    if (updated && 'override' in updated) {
+      console.log(`Registrar override ${id} updated: ${updated.override.registrar} company ${updated.override.companyCode}`);
+    }
+    return updated;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const deleted = await changeOverrides((table) => {
+      const index = table.findIndex((override) => override.id === id);
+      if (index === -1) {
+        return false;
+      }
+      table.splice(index, 1);
+      return true;
+    });
+
+    if (deleted) {
+      console.log(`Registrar override ${id} deleted`);
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,255 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  IPOMetadataSource,
+  RegistrarLookupHints,
+  RegistrarResolution,
+  RegistrarResolutionAttempt,
+  RegistrarResolutionResult,
+  RegistrarType
+} from '../types/ipoAllotment';
+import { listRegistrars } from '../registrars';
+import { createCache } from './cache';
+import { RegistrarOverrides } from './registrarOverrides';
+import { installCircuitBreaker } from './circuitBreaker';
+import { installRetryPolicy } from './retryPolicy';
+
+const TRENDLYNE_BASE_URL: string =
+  process.env.TRENDLYNE_BASE_URL || 'https://trendlyne.com/ipo/api';
+
+const IPO_TREND_BASE_URL: string =
+  process.env.IPO_TREND_BASE_URL || 'https://api.ipo-trend.com/ipo';
+
+const IPODEKHO_BASE_URL = 'https://app.ipodekho.com';
+
+// Configure axios with default settings for IPO metadata sources
+const apiClient: AxiosInstance = installRetryPolicy(installCircuitBreaker(axios.create({
+  timeout: 15000, // 15 seconds timeout, resolving is only the first step of a check
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'application/json, text/plain, */*',
+    'Accept-Language': 'en-US,en;q=0.9'
+  }
+})));
+
+const METADATA_CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours; an IPO's registrar doesn't change
+const METADATA_MISS_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes for metadata without a registrar yet
+
+// IPO metadata responses, keyed by source and identifier, so repeat auto-detected checks don't
+// fetch the same metadata again
+const metadataCache = createCache<any>('ipo-metadata', {
+  ttlMs: METADATA_CACHE_DURATION,
+  maxEntries: 500
+});
+
+const REGISTRAR_KEY_PATTERN = /registrar|(^|_)rta(_|$)/i;
+const COMPANY_NAME_KEY_PATTERN = /^(company_?name|companyname|ipo_?name|ipoName|name)$/i;
+const MAX_SCAN_DEPTH = 8;
+
+interface FoundValue {
+  path: string;
+  value: string;
+}
+
+// Recursively collect string values whose key matches the pattern.
+// When a matching key holds an object (e.g. { name, website }), its name-like fields are collected.
+function collectValues(node: any, keyPattern: RegExp, path = '', depth = 0, found: FoundValue[] = []): FoundValue[] {
+  if (!node || typeof node !== 'object' || depth > MAX_SCAN_DEPTH) {
+    return found;
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    const childPath = path ? `${path}.${key}` : key;
+
+    if (keyPattern.test(key)) {
+      if (typeof value === 'string' && value.trim()) {
+        found.push({ path: childPath, value: value.trim() });
+        continue;
+      }
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [innerKey, innerValue] of Object.entries(value)) {
+          if (/name|title/i.test(innerKey) && typeof innerValue === 'string' && innerValue.trim()) {
+            found.push({ path: `${childPath}.${innerKey}`, value: innerValue.trim() });
+          }
+        }
+      }
+    }
+
+    if (value && typeof value === 'object') {
+      collectValues(value, keyPattern, childPath, depth + 1, found);
+    }
+  }
+
+  return found;
+}
+
+// Map a registrar name from metadata to one of our registrar keys, using each adapter's name pattern
+export function matchRegistrarName(text: string): RegistrarType | null {
+  const adapter = listRegistrars().find(({ metadataPattern }) => metadataPattern && metadataPattern.test(text));
+  return adapter ? adapter.key : null;
+}
+
+// Fetch company details from Trendlyne
+async function fetchTrendlyneDetails(trendlyneId: string): Promise<any> {
+  const response = await apiClient.get(`${TRENDLYNE_BASE_URL}/company-details/${encodeURIComponent(trendlyneId)}/`, {
+    headers: {
+      'Referer': 'https://trendlyne.com/ipo/',
+      'Origin': 'https://trendlyne.com',
+      'X-Requested-With': 'XMLHttpRequest'
+    }
+  });
+  return response.data;
+}
+
+// Fetch IPO details by slug from IPODekho
+async function fetchIpoDekhoDetails(slug: string): Promise<any> {
+  const response = await apiClient.post(`${IPODEKHO_BASE_URL}/GetSlugByMainLineIpo/${encodeURIComponent(slug)}`, {}, {
+    idempotent: true, // A details query
+    headers: {
+      'Origin': 'https://ipodekho.com',
+      'Referer': 'https://ipodekho.com/'
+    }
+  });
+  return response.data;
+}
+
+// Fetch IPO details by symbol from IPO Trend
+async function fetchIpoTrendDetails(symbol: string): Promise<any> {
+  const response = await apiClient.get(`${IPO_TREND_BASE_URL}/${encodeURIComponent(symbol)}/`, {
+    params: { platform: 'Android' }
+  });
+  return response.data;
+}
+
+// Search the IPO Trend list by name and return the symbol of the first hit
+async function searchIpoTrendSymbol(ipoName: string): Promise<string | null> {
+  const response = await apiClient.post(`${IPO_TREND_BASE_URL}/new-ipo-list`, {}, {
+    idempotent: true, // A search
+    params: { platform: 'Android', search: ipoName, page: 1, page_size: 5 },
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  const symbols = collectValues(response.data, /^(symbol|nse_?symbol|bse_?symbol)$/i);
+  return symbols.length > 0 ? symbols[0].value : null;
+}
+
+// Turn an IPO name into the slug format IPODekho uses
+function toSlug(ipoName: string): string {
+  return ipoName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Extract the registrar and company name from a metadata payload
+function extractRegistrar(
+  source: IPOMetadataSource,
+  data: any,
+  attempts: RegistrarResolutionAttempt[]
+): RegistrarResolution | null {
+  const candidates = collectValues(data, REGISTRAR_KEY_PATTERN);
+
+  if (candidates.length === 0) {
+    attempts.push({ source, outcome: 'no_registrar', details: 'No registrar field in metadata' });
+    return null;
+  }
+
+  for (const candidate of candidates) {
+    const registrar = matchRegistrarName(candidate.value);
+    if (registrar) {
+      const companyName = collectValues(data, COMPANY_NAME_KEY_PATTERN)[0]?.value;
+      attempts.push({ source, outcome: 'resolved', details: `${candidate.path} = "${candidate.value}"` });
+      return {
+        registrar,
+        source,
+        field: candidate.path,
+        matchedText: candidate.value,
+        companyName,
+        reason: `${source} lists the registrar as "${candidate.value}" (${candidate.path})`
+      };
+    }
+  }
+
+  attempts.push({
+    source,
+    outcome: 'unrecognised_registrar',
+    details: `Registrar not supported: ${candidates.map((c) => `"${c.value}"`).join(', ')}`
+  });
+  return null;
+}
+
+// Work out which registrar handles an IPO using the metadata sources we already proxy.
+// Sources are tried in order of how precisely the hints identify the IPO.
+export async function resolveRegistrar(hints: RegistrarLookupHints): Promise<RegistrarResolutionResult> {
+  // A manual override beats anything the metadata sources say
+  const override = RegistrarOverrides.find(hints);
+  if (override) {
+    const matchedText = hints[override.matchedOn]!;
+    return {
+      resolution: {
+        registrar: override.registrar,
+        source: 'override',
+        field: `override.${override.matchedOn}`,
+        matchedText,
+        companyName: RegistrarOverrides.get(override.id)?.ipoName || hints.ipoName,
+        companyCode: override.companyCode,
+        override,
+        reason: `Manual override ${override.id} maps ${override.matchedOn} "${matchedText}" to ${override.registrar} company ${override.companyCode}`
+      },
+      attempts: []
+    };
+  }
+
+  const attempts: RegistrarResolutionAttempt[] = [];
+  // Each lookup is cached under its source and what identifies the IPO to it
+  const lookups: Array<{ source: IPOMetadataSource; key: string; fetch: () => Promise<any> }> = [];
+
+  if (hints.trendlyneId) {
+    lookups.push({ source: 'trendlyne', key: hints.trendlyneId, fetch: () => fetchTrendlyneDetails(hints.trendlyneId!) });
+  }
+  if (hints.slug) {
+    lookups.push({ source: 'ipodekho', key: hints.slug, fetch: () => fetchIpoDekhoDetails(hints.slug!) });
+  }
+  if (hints.symbol) {
+    lookups.push({ source: 'ipotrend', key: hints.symbol, fetch: () => fetchIpoTrendDetails(hints.symbol!) });
+  }
+  if (hints.ipoName) {
+    const ipoName = hints.ipoName;
+    if (!hints.slug) {
+      lookups.push({ source: 'ipodekho', key: toSlug(ipoName), fetch: () => fetchIpoDekhoDetails(toSlug(ipoName)) });
+    }
+    if (!hints.symbol) {
+      lookups.push({
+        source: 'ipotrend',
+        key: `search:${ipoName.toLowerCase()}`,
+        fetch: async () => {
+          const symbol = await searchIpoTrendSymbol(ipoName);
+          if (!symbol) {
+            throw new Error(`No IPO Trend listing found for "${ipoName}"`);
+          }
+          return fetchIpoTrendDetails(symbol);
+        }
+      });
+    }
+  }
+
+  for (const lookup of lookups) {
+    try {
+      const data = await metadataCache.getOrLoad(
+        `${lookup.source}:${lookup.key}`,
+        lookup.fetch,
+        (fetched) => collectValues(fetched, REGISTRAR_KEY_PATTERN).length > 0
+          ? METADATA_CACHE_DURATION
+          : METADATA_MISS_CACHE_DURATION
+      );
+      const resolution = extractRegistrar(lookup.source, data, attempts);
+      if (resolution) {
+        return { resolution, attempts };
+      }
+    } catch (error: any) {
+      console.error(`Error resolving registrar from ${lookup.source}:`, error.message);
+      attempts.push({ source: lookup.source, outcome: 'error', details: error.message });
+    }
+  }
+
+  return { resolution: null, attempts };
+}
@@ -0,0 +1,80 @@
+import {
+  AllotmentResultStatus,
+  IPOAllotmentRequest,
+  IPOAllotmentResponse,
+  RegistrarAdapter
+} from '../types/ipoAllotment';
+import { DEFINITIVE_STATUSES } from './allotmentResult';
+import { searchModeOf } from './allotmentSearch';
+import { resolveCompanyCode } from './companyLookup';
+import { hashPan, protectResponse } from './privacy';
+import { createCache } from './cache';
+
+const DEFINITIVE_RESULT_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days; an allotment never changes once published
+const NO_RECORD_TTL = 10 * 60 * 1000; // 10 minutes, since "no record" often means results aren't out yet
+const MAX_CACHED_RESULTS = 5000; // Least recently used results are dropped beyond this
+
+// Registrar results kept for repeat checks, without the raw registrar body or unmasked personal details
+const results = createCache<IPOAllotmentResponse>('allotment-results', {
+  ttlMs: DEFINITIVE_RESULT_TTL,
+  maxEntries: MAX_CACHED_RESULTS
+});
+
+// How long a result may be served from cache; null for results that shouldn't be
+function ttlFor(status: AllotmentResultStatus): number | null {
+  if (DEFINITIVE_STATUSES.includes(status)) return DEFINITIVE_RESULT_TTL;
+  if (status === 'no_record') return NO_RECORD_TTL;
+  return null;
+}
+
+// Cache key for a check: the hashed PAN, the registrar and the IPO's company code, resolved the
+// way the registrar's checker would (usually straight from the company lookup cache). Registrars
+// without company codes are keyed by IPO name instead. Returns the request to run, carrying the
+// resolved code so it isn't looked up twice, or null when the check can't be cached: it isn't a
+// PAN search, or the company can't be resolved.
+export async function resultCacheKey(
+  adapter: RegistrarAdapter,
+  request: IPOAllotmentRequest,
+  signal?: AbortSignal
+): Promise<{ key: string; request: IPOAllotmentRequest } | null> {
+  if (searchModeOf(request) !== 'pan' || !request.panNo) {
+    return null;
+  }
+
+  let companyKey = `name:${request.ipoName.toLowerCase().trim()}`;
+  let resolvedRequest = request;
+  const { companyDirectory, requiresCompanyCode } = adapter.capabilities;
+  if (requiresCompanyCode && (companyDirectory || adapter.companyDirectoryOf)) {
+    try {
+      const company = await resolveCompanyCode(adapter.key, request, signal, adapter.companyDirectoryOf);
+      if ('response' in company) {
+        return null; // The checker reports the ambiguous or unknown company itself
+      }
+      companyKey = company.companyCode;
+      resolvedRequest = { ...request, companyCode: company.companyCode };
+    } catch {
+      return null;
+    }
+  }
+
+  return { key: `${adapter.key}:${companyKey}:${hashPan(request.panNo)}`, request: resolvedRequest };
+}
+
+// A cached result, marked as served from cache with the time it was fetched
+export async function getCachedResult(key: string): Promise<IPOAllotmentResponse | null> {
+  const entry = await results.getEntry(key);
+  return entry ? { ...entry.value, cached: true, fetchedAt: new Date(entry.storedAt).toISOString() } : null;
+}
+
+// Stamp a freshly fetched result and keep it when it's final (or a recent "no record").
+// Pass a null key for results that can't be cached.
+export async function cacheResult(key: string | null, response: IPOAllotmentResponse): Promise<IPOAllotmentResponse> {
+  const fetchedAt = new Date().toISOString();
+  const ttl = ttlFor(response.status);
+
+  if (key && ttl !== null && response.success) {
+    await results.set(key, protectResponse(response), ttl);
+  }
+
+  return { ...response, cached: false, fetchedAt };
+}
@@ -0,0 +1,181 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { RetryPolicy, UpstreamAttempts } from '../types/ipoAllotment';
+import { UpstreamUnavailableError } from './circuitBreaker';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Marks a POST or PATCH that only reads (e.g. a web method returning a company list) as safe
+    // to send again, or a GET that isn't as unsafe
+    idempotent?: boolean;
+    retryAttempt?: number; // Set by the retry policy: retries made before this request
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY = 250; // 250 ms, doubled for every retry
+const DEFAULT_MAX_DELAY = 5000; // 5 seconds
+const DEFAULT_RETRY_STATUSES = [429, 502, 503, 504];
+
+// Methods that can be sent again without changing anything upstream
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// Connection failures worth another attempt. Timeouts aren't among them: the request already
+// waited out the whole timeout, and a retry would make the caller wait again.
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'];
+
+interface AttemptCounter {
+  attempts: UpstreamAttempts;
+  parent?: AttemptCounter;
+}
+
+const counters = new AsyncLocalStorage<AttemptCounter>();
+
+// Per-host policies given with configureRetryPolicy
+const hostPolicies = new Map<string, Partial<RetryPolicy>>();
+
+function fromEnv(name: string, fallback: number, minimum: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < minimum ? fallback : value;
+}
+
+// Per-host policies from RETRY_POLICIES, a JSON object of partial policies keyed by host
+function envPolicies(): Record<string, Partial<RetryPolicy>> {
+  if (!process.env.RETRY_POLICIES) {
+    return {};
+  }
+  try {
+    return JSON.parse(process.env.RETRY_POLICIES);
+  } catch (error: any) {
+    console.error('Ignoring RETRY_POLICIES, it is not valid JSON:', error.message);
+    return {};
+  }
+}
+
+// The policy for a host: defaults from RETRY_MAX_ATTEMPTS, RETRY_BASE_DELAY_MS and
+// RETRY_MAX_DELAY_MS, then RETRY_POLICIES, then configureRetryPolicy
+export function retryPolicyFor(host: string): RetryPolicy {
+  return {
+    maxAttempts: fromEnv('RETRY_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS, 1),
+    baseDelayMs: fromEnv('RETRY_BASE_DELAY_MS', DEFAULT_BASE_DELAY, 0),
+    maxDelayMs: fromEnv('RETRY_MAX_DELAY_MS', DEFAULT_MAX_DELAY, 0),
+    retryStatuses: DEFAULT_RETRY_STATUSES,
+    ...envPolicies()[host],
+    ...hostPolicies.get(host)
+  };
+}
+
+// Change a host's policy, e.g. more attempts for a registrar known to drop connections
+export function configureRetryPolicy(host: string, policy: Partial<RetryPolicy>): void {
+  hostPolicies.set(host, { ...hostPolicies.get(host), ...policy });
+}
+
+// Run fn, counting the upstream requests it makes and retries it needs. The counts, also handed
+// to fn, fill in as fn's requests finish; they are added to any count fn runs inside as well.
+export function countAttempts<T>(fn: (attempts: UpstreamAttempts) => T): { result: T; attempts: UpstreamAttempts } {
+  const counter: AttemptCounter = { attempts: { requests: 0, retries: 0 }, parent: counters.getStore() };
+  return { result: counters.run(counter, () => fn(counter.attempts)), attempts: counter.attempts };
+}
+
+function recordAttempt(field: keyof UpstreamAttempts): void {
+  for (let counter = counters.getStore(); counter; counter = counter.parent) {
+    counter.attempts[field]++;
+  }
+}
+
+function hostOf(config: InternalAxiosRequestConfig): string | null {
+  try {
+    return new URL(config.url || '', config.baseURL).host;
+  } catch {
+    return null;
+  }
+}
+
+function isIdempotent(config: InternalAxiosRequestConfig): boolean {
+  return config.idempotent ?? IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase());
+}
+
+// Retry-After in milliseconds, given either as seconds or as an HTTP date
+function retryAfterOf(error: AxiosError): number | null {
+  const header = error.response?.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') {
+    return null;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(header));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// How long to wait before the next attempt, or null when the failure isn't worth retrying
+function retryDelay(error: AxiosError, config: InternalAxiosRequestConfig, policy: RetryPolicy): number | null {
+  const retries = config.retryAttempt ?? 0;
+  if (retries + 1 >= policy.maxAttempts || !isIdempotent(config)) {
+    return null;
+  }
+
+  if (error.response) {
+    if (!policy.retryStatuses.includes(error.response.status)) {
+      return null;
+    }
+    // The upstream said when to come back; retrying sooner would only be refused again
+    const retryAfter = retryAfterOf(error);
+    if (retryAfter !== null) {
+      return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+    }
+  } else if (!error.code || !RETRYABLE_ERROR_CODES.includes(error.code)) {
+    return null;
+  }
+
+  // Exponential backoff with full jitter, so callers that failed together don't retry together
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retries);
+}
+
+// Wait, ending early when the request is aborted; the retry then fails as cancelled
+function wait(ms: number, signal?: InternalAxiosRequestConfig['signal']): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener?.('abort', done);
+      resolve();
+    }
+    signal?.addEventListener?.('abort', done);
+  });
+}
+
+// Retry idempotent requests the client sends after connection resets and overloaded or failing
+// upstream answers, per the host's retry policy. Install it after the circuit breaker, so every
+// attempt counts towards the breaker and no retry is sent to a host whose breaker opened.
+export function installRetryPolicy(client: AxiosInstance): AxiosInstance {
+  client.interceptors.response.use(
+    (response) => {
+      recordAttempt('requests');
+      return response;
+    },
+    async (error) => {
+      const config: InternalAxiosRequestConfig | undefined = error.config;
+      if (!config || axios.isCancel(error) || error instanceof UpstreamUnavailableError) {
+        throw error;
+      }
+      recordAttempt('requests');
+
+      const host = hostOf(config);
+      const delay = host ? retryDelay(error, config, retryPolicyFor(host)) : null;
+      if (delay === null) {
+        throw error;
+      }
+
+      const retryAttempt = (config.retryAttempt ?? 0) + 1;
+      const reason = error.response ? `HTTP ${error.response.status}` : error.code;
+      console.log(`Retrying ${config.method?.toUpperCase()} ${host} after ${reason} (retry ${retryAttempt}) in ${Math.round(delay)}ms`);
+      await wait(delay, config.signal);
+      recordAttempt('retries');
+      return client.request({ ...config, retryAttempt });
+    }
+  );
+
+  return client;
+}
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { KeyValueClient, SnapshotStore } from '../types/ipoAllotment';
+
+const DEFAULT_SNAPSHOT_DIR = '.cache/snapshots';
+const KEY_PREFIX = 'snapshot:';
+
+// Filesystem store, the default: one JSON file per snapshot. Survives restarts of a long-running
+// server; on serverless hosts only as long as the instance's disk does.
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly directory: string) {}
+
+  private fileOf(name: string): string {
+    return path.join(this.directory, `${encodeURIComponent(name)}.json`);
+  }
+
+  async read(name: string): Promise<unknown | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileOf(name), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Written to a temporary file first, so a crash never leaves half a snapshot behind
+  async write(name: string, data: unknown): Promise<void> {
+    const file = this.fileOf(name);
+    await fs.mkdir(this.directory, { recursive: true });
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(data));
+    await fs.rename(temporary, file);
+  }
+}
+
+// Store on a shared key-value service, so every instance warms from the same snapshots.
+// Values are saved as JSON strings, whether or not the client serialises them itself.
+export class KeyValueSnapshotStore implements SnapshotStore {
+  constructor(private readonly client: KeyValueClient) {}
+
+  async read(name: string): Promise<unknown | null> {
+    const value = await this.client.get(`${KEY_PREFIX}${name}`);
+    if (value === null || value === undefined) return null;
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
+  async write(name: string, data: unknown): Promise<void> {
+    await this.client.set(`${KEY_PREFIX}${name}`, JSON.stringify(data));
+  }
+}
+
+let store: SnapshotStore | null = null;
+
+// Snapshots by name, in creation order
+const snapshots = new Map<string, Snapshot<any>>();
+
+// Directory for files this instance writes as it runs: SNAPSHOT_DIR, or .cache/snapshots
+export function snapshotDirectory(): string {
+  return process.env.SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR;
+}
+
+// The store every snapshot uses: set with setSnapshotStore, or a file store under SNAPSHOT_DIR
+function snapshotStore(): SnapshotStore {
+  if (!store) {
+    store = new FileSnapshotStore(snapshotDirectory());
+  }
+  return store;
+}
+
+// In-memory state that is saved to the snapshot store as it changes and restored from it when
+// an instance starts, so a cold instance doesn't have to rebuild it. A failing store is logged
+// and otherwise ignored; the state is rebuilt the slow way.
+export class Snapshot<T> {
+  private warming: Promise<void> | null = null;
+  private saving: Promise<void> | null = null;
+  private saveAgain = false; // Changed while a save was in progress
+
+  constructor(
+    readonly name: string,
+    private readonly collect: () => Promise<T> | T,
+    private readonly restore: (data: T) => Promise<void> | void
+  ) {}
+
+  // Restore the state once per instance. Callers await this before reading the state, so nothing
+  // is rebuilt that the snapshot already had.
+  warm(): Promise<void> {
+    if (!this.warming) {
+      this.warming = (async () => {
+        const data = await snapshotStore().read(this.name);
+        if (data !== null) {
+          await this.restore(data as T);
+          console.log(`Restored ${this.name} from snapshot`);
+        }
+      })().catch((error: any) => {
+        console.error(`Error restoring ${this.name} from snapshot:`, error.message);
+      });
+    }
+    return this.warming;
+  }
+
+  // Save the current state. Changes made while a save is running are saved once it finishes.
+  save(): Promise<void> {
+    if (this.saving) {
+      this.saveAgain = true;
+      return this.saving;
+    }
+
+    this.saving = (async () => {
+      // Don't overwrite a snapshot this instance hasn't restored yet
+      await this.warm();
+      do {
+        this.saveAgain = false;
+        try {
+          await snapshotStore().write(this.name, await this.collect());
+        } catch (error: any) {
+          console.error(`Error saving ${this.name} snapshot:`, error.message);
+        }
+      } while (this.saveAgain);
+    })().finally(() => {
+      this.saving = null;
+    });
+    return this.saving;
+  }
+}
+
+// Get a named snapshot, creating it on first use
+export function createSnapshot<T>(
+  name: string,
+  collect: () => Promise<T> | T,
+  restore: (data: T) => Promise<void> | void
+): Snapshot<T> {
+  let snapshot = snapshots.get(name);
+  if (!snapshot) {
+    snapshot = new Snapshot<T>(name, collect, restore);
+    snapshots.set(name, snapshot);
+  }
+  return snapshot;
+}
+
+// Restore every snapshot, e.g. when the server boots
+export async function warmSnapshots(): Promise<void> {
+  await Promise.all(Array.from(snapshots.values()).map((snapshot) => snapshot.warm()));
+}
+
+// Swap the store behind every snapshot, e.g. for a KeyValueSnapshotStore on serverless hosts.
+// Set it before the first request, since each snapshot is only restored once.
+export function setSnapshotStore(snapshotStoreToUse: SnapshotStore): void {
+  store = snapshotStoreToUse;
+}
@@ -0,0 +1,226 @@
+import axios, { AxiosInstance, Method } from 'axios';
+import {
+  DeepHealthReport,
+  HealthMarker,
+  ProbeOutcome,
+  UpstreamHealth,
+  UpstreamKind,
+  UpstreamProbeResult,
+  UpstreamStatus
+} from '../types/ipoAllotment';
+import { listRegistrars } from '../registrars';
+import { checkMarkers, jsonMarker } from './healthMarkers';
+
+const TRENDLYNE_BASE_URL: string =
+  process.env.TRENDLYNE_BASE_URL || 'https://trendlyne.com/ipo/api';
+
+const IPO_TREND_BASE_URL: string =
+  process.env.IPO_TREND_BASE_URL || 'https://api.ipo-trend.com/ipo';
+
+const PROBE_INTERVAL = 5 * 60 * 1000; // 5 minutes between scheduled rounds of probes
+const PROBE_TIMEOUT = 10000; // 10 seconds, a health probe should fail fast
+const SLOW_RESPONSE_THRESHOLD = 5000; // Slower answers count as degraded
+const HISTORY_LIMIT = 48; // Probes kept per upstream; 4 hours at the default interval
+
+// Configure axios with default settings for data source probes
+const apiClient: AxiosInstance = axios.create({
+  timeout: PROBE_TIMEOUT,
+  validateStatus: () => true,
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'application/json, text/plain, */*',
+    'Accept-Language': 'en-US,en;q=0.9'
+  }
+});
+
+interface DataSourceProbe {
+  key: string;
+  name: string;
+  method: Method;
+  url: string;
+  data?: unknown;
+  headers?: Record<string, string>;
+  markers: HealthMarker[];
+}
+
+// One cheap request per IPO data source, with what its answer must contain for our parsing of
+// that source to keep working
+const DATA_SOURCE_PROBES: DataSourceProbe[] = [
+  {
+    key: 'trendlyne',
+    name: 'Trendlyne',
+    method: 'GET',
+    url: `${TRENDLYNE_BASE_URL}/listing-details/`,
+    markers: [jsonMarker('head.status === 0', (data) => data.head.status === 0 || data.head.status === '0')]
+  },
+  {
+    key: 'ipodekho',
+    name: 'IPODekho',
+    method: 'POST',
+    url: 'https://app.ipodekho.com/GetMainLineIpo',
+    // Any listing request is answered with JSON, which is all the probe relies on
+    data: { CategoryForIPOS: 'MainBoard', type: 'Current' },
+    headers: { 'Content-Type': 'application/json' },
+    markers: [jsonMarker('JSON body', (data) => typeof data === 'object' && data !== null)]
+  },
+  {
+    key: 'ipotrend',
+    name: 'IPO Trend',
+    method: 'GET',
+    url: `${IPO_TREND_BASE_URL}/banner-ipo-list`,
+    markers: [jsonMarker('JSON body', (data) => typeof data === 'object' && data !== null)]
+  },
+  {
+    key: 'iponinja',
+    name: 'IPONinja',
+    method: 'GET',
+    url: 'https://iponinjaapi.matalia.co.in/api/v1/Ipo/ipo/getallotmentoutipo',
+    markers: [jsonMarker('dataResult is a list', (data) => Array.isArray(data.dataResult))]
+  }
+];
+
+// Probe results per upstream, keyed by `${kind}:${key}`, most recent first
+const histories = new Map<string, UpstreamProbeResult[]>();
+let lastRoundAt: number | null = null;
+let inFlight: Promise<void> | null = null;
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+async function probeDataSource(probe: DataSourceProbe, signal: AbortSignal): Promise<ProbeOutcome> {
+  const response = await apiClient.request({
+    method: probe.method,
+    url: probe.url,
+    data: probe.data,
+    headers: probe.headers,
+    signal
+  });
+
+  if (response.status >= 500) {
+    throw new Error(`${probe.url} responded with HTTP ${response.status}`);
+  }
+  return { url: probe.url, httpStatus: response.status, markers: checkMarkers(response.data, probe.markers) };
+}
+
+// Time one probe and grade what it saw
+async function runProbe(probe: (signal: AbortSignal) => Promise<ProbeOutcome>): Promise<UpstreamProbeResult> {
+  const startedAt = Date.now();
+  const checkedAt = () => new Date().toISOString();
+
+  try {
+    const outcome = await probe(AbortSignal.timeout(PROBE_TIMEOUT));
+    const responseTimeMs = Date.now() - startedAt;
+    const missing = outcome.markers.filter((marker) => !marker.present).map((marker) => marker.name);
+
+    let status: UpstreamStatus = 'up';
+    let error: string | undefined;
+    if (missing.length > 0) {
+      status = 'degraded';
+      error = `Expected markers missing: ${missing.join(', ')}`;
+    } else if (outcome.httpStatus >= 400) {
+      status = 'degraded';
+      error = `Responded with HTTP ${outcome.httpStatus}`;
+    } else if (responseTimeMs > SLOW_RESPONSE_THRESHOLD) {
+      status = 'degraded';
+      error = `Slow response: ${responseTimeMs}ms`;
+    }
+    return { status, checkedAt: checkedAt(), responseTimeMs, ...outcome, error };
+  } catch (error: any) {
+    return { status: 'down', checkedAt: checkedAt(), responseTimeMs: Date.now() - startedAt, markers: [], error: error.message };
+  }
+}
+
+function record(kind: UpstreamKind, key: string, result: UpstreamProbeResult): void {
+  const id = `${kind}:${key}`;
+  const history = [result, ...(histories.get(id) || [])].slice(0, HISTORY_LIMIT);
+  histories.set(id, history);
+  if (result.status !== 'up') {
+    console.error(`Health probe: ${key} is ${result.status}: ${result.error}`);
+  }
+}
+
+function healthOf(kind: UpstreamKind, key: string, name: string): UpstreamHealth {
+  const history = histories.get(`${kind}:${key}`) || [];
+  const reachable = history.filter((result) => result.status !== 'down');
+  return {
+    key,
+    name,
+    kind,
+    latest: history[0] || null,
+    uptime: history.length > 0 ? history.filter((result) => result.status === 'up').length / history.length : null,
+    averageResponseTimeMs: reachable.length > 0
+      ? Math.round(reachable.reduce((total, result) => total + result.responseTimeMs, 0) / reachable.length)
+      : null,
+    history
+  };
+}
+
+// Probe every registrar and data source at once, sharing a round already in progress
+function probeAll(): Promise<void> {
+  if (!inFlight) {
+    inFlight = (async () => {
+      await Promise.all([
+        ...listRegistrars().map(async (adapter) => {
+          record('registrar', adapter.key, await runProbe((signal) => adapter.probe(signal)));
+        }),
+        ...DATA_SOURCE_PROBES.map(async (probe) => {
+          record('data_source', probe.key, await runProbe((signal) => probeDataSource(probe, signal)));
+        })
+      ]);
+      lastRoundAt = Date.now();
+    })().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+// Deep health: registrars and IPO data sources probed for reachability, response time and the
+// page elements or response fields our scrapers rely on, with a rolling history per upstream
+export class UpstreamHealthService {
+  // The latest probes of every upstream, probing first when the last round is older than the
+  // probe interval (e.g. on a cold instance)
+  static async getReport(maxAgeMs: number = PROBE_INTERVAL): Promise<DeepHealthReport> {
+    if (lastRoundAt === null || Date.now() - lastRoundAt > maxAgeMs) {
+      await probeAll();
+    }
+
+    const registrars = listRegistrars().map((adapter) => healthOf('registrar', adapter.key, adapter.name));
+    const dataSources = DATA_SOURCE_PROBES.map((probe) => healthOf('data_source', probe.key, probe.name));
+    const summary: Record<UpstreamStatus, number> = { up: 0, degraded: 0, down: 0 };
+    [...registrars, ...dataSources].forEach((upstream) => {
+      summary[upstream.latest?.status ?? 'down']++;
+    });
+
+    return {
+      status: summary.degraded + summary.down > 0 ? 'DEGRADED' : 'OK',
+      checkedAt: lastRoundAt ? new Date(lastRoundAt).toISOString() : null,
+      summary,
+      registrars,
+      dataSources
+    };
+  }
+
+  // Probe every upstream now
+  static async probeAll(): Promise<void> {
+    await probeAll();
+  }
+
+  // Probe upstreams in the background while the process is alive
+  static startScheduler(intervalMs: number = PROBE_INTERVAL): void {
+    if (schedulerTimer) {
+      return;
+    }
+    schedulerTimer = setInterval(() => {
+      probeAll().catch((error) => {
+        console.error('Error probing upstreams:', error.message);
+      });
+    }, intervalMs);
+    schedulerTimer.unref(); // Don't keep the process alive just for probes
+  }
+
+  static stopScheduler(): void {
+    if (schedulerTimer) {
+      clearInterval(schedulerTimer);
+      schedulerTimer = null;
+    }
+  }
+}
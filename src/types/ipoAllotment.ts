@@ -1,68 +1,550 @@
 // Types for IPO Allotment Status API
 
-export interface IPOAllotmentRequest {
-  panNo: string;
+// How a registrar can be searched: by PAN, by application number or by demat account
+export type RegistrarSearchMode = 'pan' | 'application' | 'dpclient';
+
+// Who to look up. Only the identifier for the chosen search mode is needed.
+export interface AllotmentSearch {
+  searchBy?: RegistrarSearchMode; // Defaults to 'pan'
+  panNo?: string;
+  applicationNo?: string;
+  dpId?: string; // NSDL 'IN' + 6 digits, or the first 8 digits of a CDSL BO ID
+  clientId?: string; // 8 digits
+}
+
+export interface IPOAllotmentRequest extends AllotmentSearch {
   ipoName: string;
   registrar?: string;
+  companyCode?: string; // Registrar company code when already resolved; skips the company lookup
 }
 
+// Normalised allotment status shared by every registrar
+export type AllotmentResultStatus =
+  | 'allotted'
+  | 'not_allotted'
+  | 'no_record'
+  | 'pending'
+  | 'ambiguous'
+  | 'captcha_required'
+  | 'unsupported' // The registrar can't be searched the requested way
+  | 'timeout'
+  | 'upstream_unavailable' // The registrar's circuit breaker is open, so it wasn't asked
+  | 'cancelled'
+  | 'error'
+  | 'unknown';
+
 export interface IPOAllotmentResponse {
   success: boolean;
   registrar: string;
-  raw: any;
-  status: string;
+  raw: any; // The registrar's response body; null unless authorised debugging asked for it
+  status: AllotmentResultStatus;
+  rawStatus?: string; // Status text exactly as the registrar returned it
   error?: string;
   details?: string;
-  allotmentDetails?: AllotmentDetails;
+  allotmentDetails?: AllotmentStatus; // The application that decided the status
+  applications?: AllotmentApplication[]; // Every application found for the applicant
+  summary?: AllotmentSummary;
+  candidates?: ScoredCompany[]; // Closest companies when the IPO name is ambiguous
+  captcha?: CaptchaChallenge; // Captcha to solve when status is captcha_required
+  override?: RegistrarOverrideUse; // Set when a manual override supplied the company code
+  attempts?: UpstreamAttempts; // Requests sent to the registrar for a fresh check
+  cached?: boolean; // Served from the result cache rather than a fresh registrar check
+  fetchedAt?: string; // When the registrar was checked for this result
+  transient?: boolean; // The check failed on a network error, timeout or server error, so retrying may help
 }
 
-export interface AllotmentDetails {
-  applicationNumber?: string;
-  applicantName?: string;
-  dpId?: string;
-  sharesApplied?: string;
-  allotmentStatus?: string;
-  status: 'allotted' | 'not allotted' | 'no record found' | 'pending' | 'unknown';
+// A registrar captcha handed to the user. Submit the answer with the token to finish the check.
+export interface CaptchaChallenge {
+  token: string;
+  image: string; // data: URL
+  expiresAt: string;
 }
 
+// Whatever an adapter needs to finish a check once the captcha is answered: form fields, cookies, URLs
+export type CaptchaSessionState = Record<string, any>;
+
+// Normalised application details; numbers are parsed from the registrar's text
 export interface AllotmentStatus {
   applicationNumber?: string;
   applicantName?: string;
+  dpId?: string;
   category?: string;
   sharesApplied?: number;
   sharesAllotted?: number;
   amount?: number;
   refundAmount?: number;
-  status: 'allotted' | 'not_allotted' | 'pending' | 'unknown';
+  refundMode?: string;
 }
 
-export interface ParsedAllotmentResponse {
-  success: boolean;
-  registrar: string;
-  raw: any;
-  status: string;
-  error?: string;
-  details?: string;
+// One application found for the applicant. A PAN can have several, e.g. retail plus shareholder quota.
+export interface AllotmentApplication extends AllotmentStatus {
+  status: AllotmentResultStatus;
+  rawStatus?: string;
+}
+
+// Totals across every application found for the applicant
+export interface AllotmentSummary {
+  applicationCount: number;
+  allottedCount: number;
+  totalSharesApplied: number;
+  totalSharesAllotted: number;
+  totalRefundAmount: number;
+}
+
+// What a registrar parser reads from a response body, before it is wrapped into an IPOAllotmentResponse
+export interface ParsedAllotmentResult {
+  status: AllotmentResultStatus;
+  rawStatus?: string;
   allotmentDetails?: AllotmentStatus;
+  applications?: AllotmentApplication[];
+  summary?: AllotmentSummary;
 }
 
-export type RegistrarType =
-  | 'bigshare'
-  | 'kfintech'
-  | 'linkintime'
-  | 'skyline'
-  | 'cameo'
-  | 'mas'
-  | 'maashitla'
-  | 'beetal'
-  | 'purva'
-  | 'mufg';
+// Registrar key, e.g. 'bigshare'. Registrars are added by registering an adapter, so any key may appear.
+export type RegistrarType = string;
 
-export interface RegistrarConfig {
-  name: string;
-  baseUrl: string;
-  method: 'GET' | 'POST';
-  endpoint: string;
-  requiresCompanyCode?: boolean;
+// What a registrar adapter supports, as reported by the registrars endpoint
+export interface RegistrarCapabilities {
+  searchModes: RegistrarSearchMode[];
+  companyDirectory: boolean; // The adapter can list the registrar's companies
+  requiresCompanyCode: boolean; // The IPO name is resolved to a registrar company code before checking
+  captcha: boolean; // The registrar's form is protected by a captcha
   responseType: 'json' | 'html';
 }
+
+// A company option scraped from a registrar dropdown
+export interface CompanyOption {
+  code: string;
+  name: string;
+}
+
+// Contract for a registrar module. Register an adapter with the registrar registry and it is
+// checked, listed, probed and (with listCompanies) included in the company directory.
+export interface RegistrarAdapter {
+  key: RegistrarType;
+  name: string;
+  website: string;
+  capabilities: RegistrarCapabilities;
+  metadataPattern?: RegExp; // Matches the registrar's name as written in IPO metadata
+  companyDirectoryOf?: RegistrarType; // Registrar whose company list this one looks IPOs up in (default: its own)
+  listCompanies?: () => Promise<CompanyOption[]>;
+  check: (request: IPOAllotmentRequest, signal?: AbortSignal) => Promise<IPOAllotmentResponse>;
+  parse: (body: any) => ParsedAllotmentResult;
+  probe: (signal?: AbortSignal) => Promise<ProbeOutcome>; // Resolves when the registrar is reachable
+  // Finish a check that stopped at a captcha, with the state saved when the captcha was handed out
+  submitCaptcha?: (
+    request: IPOAllotmentRequest,
+    state: CaptchaSessionState,
+    answer: string,
+    signal?: AbortSignal
+  ) => Promise<IPOAllotmentResponse>;
+}
+
+// A registered registrar as reported by the registrars endpoint
+export interface RegistrarSummary {
+  name: RegistrarType;
+  displayName: string;
+  website: string;
+  capabilities: RegistrarCapabilities;
+}
+
+// Per-request options for registrar checks
+export interface AllotmentCheckOptions {
+  includeRaw?: boolean; // Keep the registrar's raw response; for authorised debugging only
+  bypassCache?: boolean; // Check with the registrar even when a cached result exists
+}
+
+export interface CheckAllRegistrarsOptions extends AllotmentCheckOptions {
+  concurrency?: number; // Maximum registrars queried at once
+  registrarTimeoutMs?: number; // Deadline for each registrar check
+  totalTimeoutMs?: number; // Deadline for the whole fan-out
+  stopOnFirstDefinitive?: boolean; // Cancel remaining checks once one registrar returns Allotted or Not Allotted
+}
+
+export type RegistrarCheckOutcome = 'completed' | 'timed_out' | 'cancelled' | 'skipped';
+
+export interface CheckAllRegistrarsResult {
+  results: IPOAllotmentResponse[];
+  completed: RegistrarType[];
+  timedOut: RegistrarType[];
+  cancelled: RegistrarType[];
+  skipped: RegistrarType[]; // Registrars that don't support the requested search mode
+  definitiveRegistrar?: RegistrarType;
+  durationMs: number;
+}
+
+// Identifiers we can use to look up an IPO's registrar from metadata sources
+export interface RegistrarLookupHints {
+  ipoName?: string;
+  symbol?: string; // IPO Trend symbol
+  slug?: string; // IPODekho slug
+  trendlyneId?: string; // Trendlyne company ID
+}
+
+export type IPOMetadataSource = 'trendlyne' | 'ipodekho' | 'ipotrend';
+
+export interface RegistrarResolution {
+  registrar: RegistrarType;
+  source: IPOMetadataSource | 'override';
+  field: string; // Path of the metadata field the registrar was read from
+  matchedText: string; // Registrar name as listed by the source
+  companyName?: string; // Company name listed by the source
+  companyCode?: string; // Registrar company code, when an override pins it
+  override?: RegistrarOverrideUse;
+  reason: string;
+}
+
+export interface RegistrarResolutionAttempt {
+  source: IPOMetadataSource;
+  outcome: 'resolved' | 'no_registrar' | 'unrecognised_registrar' | 'error';
+  details?: string;
+}
+
+export interface RegistrarResolutionResult {
+  resolution: RegistrarResolution | null;
+  attempts: RegistrarResolutionAttempt[];
+}
+
+export interface AutoAllotmentResult extends RegistrarResolutionResult {
+  result: IPOAllotmentResponse | null;
+}
+
+// One applicant in a bulk check, e.g. a family member's PAN
+export interface BulkAllotmentApplicant {
+  panNo: string;
+  label?: string; // e.g. "Mom"
+}
+
+export interface BulkAllotmentRequest extends RegistrarLookupHints {
+  registrar?: RegistrarType; // Detected from the hints when omitted
+  applicants: BulkAllotmentApplicant[];
+}
+
+export interface BulkAllotmentOptions extends Pick<AllotmentCheckOptions, 'bypassCache'> {
+  concurrency?: number; // Maximum PANs checked at once
+  checkTimeoutMs?: number; // Deadline for each PAN's check
+}
+
+// One row of the bulk result table
+export interface BulkAllotmentRow extends BulkAllotmentApplicant {
+  status: AllotmentResultStatus;
+  rawStatus?: string;
+  sharesApplied: number;
+  sharesAllotted: number;
+  refundAmount: number;
+  result: IPOAllotmentResponse;
+}
+
+export interface BulkAllotmentTotals {
+  applicants: number;
+  allotted: number;
+  notAllotted: number;
+  noRecord: number;
+  unresolved: number; // Pending, captcha, failed or timed out
+  totalSharesApplied: number;
+  totalSharesAllotted: number;
+  totalRefundAmount: number;
+}
+
+// What a bulk check resolves once before checking any PAN
+export interface BulkAllotmentPlan extends RegistrarResolutionResult {
+  registrar: RegistrarType | null;
+  ipoName?: string;
+  companyCode?: string;
+  override?: RegistrarOverrideUse; // Set when a manual override supplied the company code
+  failure?: IPOAllotmentResponse; // Why no PAN can be checked
+  options: Required<BulkAllotmentOptions>; // Settings with defaults and limits applied
+}
+
+export interface BulkAllotmentResult extends RegistrarResolutionResult {
+  registrar: RegistrarType | null;
+  companyCode?: string;
+  override?: RegistrarOverrideUse; // Set when a manual override supplied the company code
+  // Why no PAN was checked, e.g. the IPO isn't listed with the registrar
+  failure?: IPOAllotmentResponse;
+  rows: BulkAllotmentRow[];
+  totals: BulkAllotmentTotals;
+  durationMs: number;
+}
+
+// A company listed in a registrar's allotment dropdown
+export interface RegistrarCompany {
+  registrar: RegistrarType;
+  companyCode: string;
+  displayName: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface RegistrarDirectoryStatus {
+  registrar: RegistrarType;
+  companyCount: number;
+  lastRefreshedAt?: string;
+  lastError?: string;
+}
+
+// A registrar company ranked against an IPO name; score is a 0-1 confidence
+export interface ScoredCompany {
+  code: string;
+  name: string;
+  score: number;
+}
+
+export interface CompanyMatchResult {
+  status: 'matched' | 'ambiguous' | 'not_found';
+  match?: ScoredCompany;
+  candidates: ScoredCompany[];
+}
+
+// What an allotment job was submitted to do
+export type AllotmentJobInput =
+  | { kind: 'bulk'; request: BulkAllotmentRequest; options: BulkAllotmentOptions }
+  | { kind: 'check_all'; request: IPOAllotmentRequest; options: CheckAllRegistrarsOptions };
+
+export type AllotmentJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type AllotmentJobTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+// One registrar check within a job: a PAN for bulk jobs, a registrar for check-all jobs
+export interface AllotmentJobTask {
+  key: string; // Hashed PAN or registrar key
+  panNo?: string; // Masked PAN, for bulk jobs
+  label?: string;
+  status: AllotmentJobTaskStatus;
+  attempts: number;
+  result?: IPOAllotmentResponse;
+}
+
+export interface AllotmentJobProgress {
+  total: number;
+  done: number; // Tasks that won't run again, whatever their outcome
+  failed: number; // Tasks still failing after every retry
+}
+
+// A check run in the background. Poll the job to follow its progress; tasks carry their
+// results as they finish, and result is set once the job is done.
+export interface AllotmentJob {
+  id: string;
+  kind: AllotmentJobInput['kind'];
+  status: AllotmentJobStatus;
+  input: AllotmentJobInput;
+  tasks: AllotmentJobTask[];
+  progress: AllotmentJobProgress;
+  result?: BulkAllotmentResult | CheckAllRegistrarsResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// Storage for allotment jobs. The default keeps them in memory; a persistent store lets jobs
+// outlive the instance that accepted them.
+export interface AllotmentJobStore {
+  save(job: AllotmentJob): Promise<void>; // Insert or replace
+  get(id: string): Promise<AllotmentJob | null>;
+  // Take the oldest queued job, marked running with startedAt set, or null when none are queued.
+  // Must hand each job to only one caller.
+  claimNext(): Promise<AllotmentJob | null>;
+}
+
+export type AllotmentWatchStatus =
+  | 'watching' // Waiting for the registrar to publish results
+  | 'completed' // A definitive result was found
+  | 'failed' // The check can't succeed by retrying, e.g. the IPO name is ambiguous
+  | 'expired' // No definitive result before the watch ran out
+  | 'cancelled';
+
+// Delivery of the watch's callback webhook
+export interface AllotmentWatchCallback {
+  url: string;
+  attempts: number;
+  deliveredAt?: string;
+  lastError?: string;
+}
+
+// A PAN and IPO re-checked with their registrar until the allotment result is published
+export interface AllotmentWatch {
+  id: string;
+  registrar: RegistrarType;
+  request: IPOAllotmentRequest;
+  label?: string;
+  status: AllotmentWatchStatus;
+  checks: number;
+  lastStatus?: AllotmentResultStatus;
+  lastCheckedAt?: string;
+  nextCheckAt?: string;
+  result?: IPOAllotmentResponse; // The final result once the watch completes or fails
+  callback?: AllotmentWatchCallback;
+  createdAt: string;
+  expiresAt: string;
+  finishedAt?: string;
+}
+
+export interface AllotmentWatchRequest extends AllotmentSearch, RegistrarLookupHints {
+  registrar?: RegistrarType; // Detected from the hints when omitted
+  label?: string;
+  callbackUrl?: string; // Sent the watch when it finishes
+}
+
+export interface AllotmentWatchCreation extends RegistrarResolutionResult {
+  watch: AllotmentWatch | null;
+  token?: string; // Secret for reading and cancelling the watch, only ever returned here
+  error?: string; // Why no watch was created
+}
+
+// A value in a cache namespace. Times are epoch milliseconds.
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Where cache entries are kept. Stores only hold entries; expiry, size limits and stats are
+// handled by the cache on top, so a store can be as simple as a key-value map.
+export interface CacheStore {
+  get(namespace: string, key: string): Promise<CacheEntry | null>;
+  set(namespace: string, key: string, entry: CacheEntry): Promise<void>; // Insert or replace
+  delete(namespace: string, key: string): Promise<void>;
+  keys(namespace: string): Promise<string[]>;
+  clear(namespace: string): Promise<void>;
+}
+
+// Where snapshots of in-memory state are kept between instances, one JSON document per name
+export interface SnapshotStore {
+  read(name: string): Promise<unknown | null>; // Null when nothing has been saved under the name
+  write(name: string, data: unknown): Promise<void>;
+}
+
+// The part of a key-value client (e.g. Vercel KV or Upstash Redis) a snapshot store needs
+export interface KeyValueClient {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<unknown>;
+}
+
+export interface CacheOptions {
+  ttlMs: number; // Default lifetime of an entry
+  maxEntries: number; // Least recently used entries are dropped beyond this
+}
+
+export interface CacheStats extends CacheOptions {
+  namespace: string;
+  size: number;
+  hits: number;
+  misses: number;
+  sets: number;
+  evictions: number; // Entries dropped to stay within maxEntries
+  expirations: number;
+  hitRate: number | null; // Hits over lookups; null before the first lookup
+}
+
+// IPO identifiers an override can be matched on, most precise first
+export type RegistrarOverrideField = 'symbol' | 'slug' | 'ipoName';
+
+// A manual mapping of an IPO to its registrar and company code, for when registrar detection or
+// the company lookup gets it wrong
+export interface RegistrarOverride {
+  id: string;
+  registrar: RegistrarType;
+  companyCode: string;
+  ipoName?: string;
+  symbol?: string;
+  slug?: string;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RegistrarOverrideInput = Pick<RegistrarOverride, 'registrar' | 'companyCode' | 'ipoName' | 'symbol' | 'slug' | 'note'>;
+
+// Which override decided a check or a registrar detection
+export interface RegistrarOverrideUse {
+  id: string;
+  matchedOn: RegistrarOverrideField;
+  registrar: RegistrarType;
+  companyCode: string;
+}
+
+// Something a probed page or API response must contain for checks against it to keep working,
+// e.g. the company dropdown a checker fills in
+export interface HealthMarker {
+  name: string; // The CSS selector or field test, as reported
+  found: (body: any) => boolean;
+}
+
+export interface HealthMarkerResult {
+  name: string;
+  present: boolean;
+}
+
+// What a reachable upstream answered to a probe
+export interface ProbeOutcome {
+  url: string;
+  httpStatus: number;
+  markers: HealthMarkerResult[];
+}
+
+export type UpstreamKind = 'registrar' | 'data_source';
+
+// up: reachable, quick and with every marker present; degraded: reachable but slow or missing a
+// marker, so the site has probably changed; down: unreachable or failing with a server error
+export type UpstreamStatus = 'up' | 'degraded' | 'down';
+
+export interface UpstreamProbeResult {
+  status: UpstreamStatus;
+  checkedAt: string;
+  responseTimeMs: number;
+  url?: string;
+  httpStatus?: number;
+  markers: HealthMarkerResult[];
+  error?: string; // Why the upstream isn't up
+}
+
+export interface UpstreamHealth {
+  key: string;
+  name: string;
+  kind: UpstreamKind;
+  latest: UpstreamProbeResult | null;
+  uptime: number | null; // Share of probes in the history that found the upstream up
+  averageResponseTimeMs: number | null;
+  history: UpstreamProbeResult[]; // Most recent first
+}
+
+export interface DeepHealthReport {
+  status: 'OK' | 'DEGRADED'; // DEGRADED when any upstream's latest probe isn't up
+  checkedAt: string | null; // When the latest round of probes finished
+  summary: Record<UpstreamStatus, number>;
+  registrars: UpstreamHealth[];
+  dataSources: UpstreamHealth[];
+}
+
+// closed: requests flow; open: requests fail fast until the cool-down passes; half_open: one
+// trial request decides whether to close again or reopen
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the breaker
+  cooldownMs: number; // How long the breaker stays open before a trial request
+}
+
+export interface CircuitBreakerStatus extends CircuitBreakerOptions {
+  host: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string; // When an open breaker lets a trial request through
+  lastFailure?: string;
+  rejected: number; // Requests failed fast while open
+}
+
+// How a client retries an idempotent request to one upstream host after a transient failure
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts in all, the first included; 1 turns retries off
+  baseDelayMs: number; // Backoff before the first retry, doubled for each one after it
+  maxDelayMs: number; // Longest wait before a retry; a longer Retry-After ends the retries instead
+  retryStatuses: number[]; // HTTP statuses worth another attempt
+}
+
+export interface UpstreamAttempts {
+  requests: number; // Requests answered or failed by upstreams, retries included
+  retries: number;
+}